@@ -0,0 +1,85 @@
+/**
+ * OCFT - Authentication
+ * HMAC proofs so peer secrets never travel over the chat channel
+ */
+
+import { createHmac, timingSafeEqual, hkdfSync } from 'crypto';
+import { OCFTMessage, OfferPayload } from './protocol.js';
+
+export const DEFAULT_PROOF_WINDOW = 5 * 60 * 1000; // Offers older/newer than 5 minutes are not trusted
+
+// Proof that the sender knows the receiver's secret, bound to this offer
+export function computeOfferProof(secret: string, msg: OCFTMessage): string {
+  const payload = msg.payload as OfferPayload;
+  const input = [
+    'ocft-offer-v1',
+    msg.transferId,
+    msg.from,
+    msg.to,
+    msg.timestamp,
+    payload.hash,
+    payload.secretTTL ?? ''
+  ].join('\n');
+  return createHmac('sha256', secret).update(input).digest('hex');
+}
+
+// Constant-time check of an offer proof against our secret
+export function verifyOfferProof(secret: string, msg: OCFTMessage): boolean {
+  const proof = (msg.payload as OfferPayload).proof;
+  if (!proof) return false;
+  
+  const expected = Buffer.from(computeOfferProof(secret, msg), 'hex');
+  const actual = Buffer.from(proof, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Per-transfer key for message MACs, derived from a secret both peers share
+export function deriveMessageKey(secret: Buffer | string, transferId: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', secret, transferId, 'ocft-mac-v1', 32));
+}
+
+// Canonical bytes covered by a message MAC (every field except the MAC itself)
+function macInput(msg: OCFTMessage): string {
+  return JSON.stringify([msg.version, msg.type, msg.transferId, msg.from, msg.to, msg.timestamp, msg.payload]);
+}
+
+// MAC over a whole message
+export function computeMessageMac(key: Buffer, msg: OCFTMessage): string {
+  return createHmac('sha256', key).update(macInput(msg)).digest('hex');
+}
+
+// Constant-time check of a message MAC
+export function verifyMessageMac(key: Buffer, msg: OCFTMessage): boolean {
+  if (!msg.mac) return false;
+  
+  const expected = Buffer.from(computeMessageMac(key, msg), 'hex');
+  const actual = Buffer.from(msg.mac, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Remembers the newest verified offer timestamp per transfer so proofs cannot be replayed
+export class ReplayCache {
+  private seen: Map<string, number> = new Map(); // transferId -> newest accepted timestamp
+  private window: number;
+  
+  constructor(window = DEFAULT_PROOF_WINDOW) {
+    this.window = window;
+  }
+  
+  // Record an offer; false if it is a replay (same or older timestamp than one already seen)
+  check(transferId: string, timestamp: number): boolean {
+    this.prune();
+    const last = this.seen.get(transferId);
+    if (last !== undefined && timestamp <= last) return false;
+    this.seen.set(transferId, timestamp);
+    return true;
+  }
+  
+  // Entries outside the time window can no longer pass the freshness check anyway
+  private prune(): void {
+    const cutoff = Date.now() - 2 * this.window;
+    for (const [transferId, timestamp] of this.seen) {
+      if (timestamp < cutoff) this.seen.delete(transferId);
+    }
+  }
+}
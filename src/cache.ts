@@ -0,0 +1,90 @@
+/**
+ * OCFT - Chunk Cache
+ * Keeps received chunks by hash so re-sent files only transfer the chunks that changed
+ */
+
+import { readdir, readFile, writeFile, rename, rm, mkdir, chmod, stat, utimes } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { sha256 } from './chunker.js';
+
+export const DEFAULT_CHUNK_CACHE_DIR = join(homedir(), '.ocft', 'chunks');
+export const DEFAULT_CHUNK_CACHE_SIZE = 256 * 1024 * 1024; // 256MB
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+// Pluggable chunk storage keyed by SHA-256
+export interface ChunkCache {
+  get(hash: string): Promise<Buffer | null>;  // null when missing
+  put(hash: string, data: Buffer): Promise<void>;
+}
+
+// Default cache: one file per chunk under ~/.ocft/chunks/, least recently used evicted first
+export class FileChunkCache implements ChunkCache {
+  private dir: string;
+  private maxSize: number;
+  private written = 0;  // Bytes added since the last eviction pass
+  
+  constructor(dir = DEFAULT_CHUNK_CACHE_DIR, maxSize = DEFAULT_CHUNK_CACHE_SIZE) {
+    this.dir = dir;
+    this.maxSize = maxSize;
+  }
+  
+  async get(hash: string): Promise<Buffer | null> {
+    if (!HASH_PATTERN.test(hash)) return null;
+    
+    const path = join(this.dir, hash);
+    let data: Buffer;
+    try {
+      data = await readFile(path);
+    } catch {
+      return null;
+    }
+    
+    // A damaged entry is worse than a miss: drop it
+    if (sha256(data) !== hash) {
+      await rm(path, { force: true });
+      return null;
+    }
+    const now = new Date();
+    await utimes(path, now, now).catch(() => {});
+    return data;
+  }
+  
+  async put(hash: string, data: Buffer): Promise<void> {
+    if (!HASH_PATTERN.test(hash) || sha256(data) !== hash) return;
+    
+    // Chunks are plaintext pieces of received files, even of encrypted transfers: owner only
+    await mkdir(this.dir, { recursive: true, mode: 0o700 });
+    await chmod(this.dir, 0o700); // Directories from older versions were world-readable
+    
+    // Write then rename so readers never see a partial chunk
+    const path = join(this.dir, hash);
+    await writeFile(`${path}.tmp`, data, { mode: 0o600 });
+    await rename(`${path}.tmp`, path);
+    
+    this.written += data.length;
+    if (this.written >= this.maxSize / 10) {
+      this.written = 0;
+      await this.evict();
+    }
+  }
+  
+  // Remove the least recently used chunks until the cache fits in maxSize
+  private async evict(): Promise<void> {
+    const entries: { path: string; size: number; mtime: number }[] = [];
+    for (const name of await readdir(this.dir)) {
+      if (!HASH_PATTERN.test(name)) continue;
+      const path = join(this.dir, name);
+      const stats = await stat(path).catch(() => null);
+      if (stats) entries.push({ path, size: stats.size, mtime: stats.mtimeMs });
+    }
+    
+    entries.sort((a, b) => b.mtime - a.mtime);
+    let total = 0;
+    for (const entry of entries) {
+      total += entry.size;
+      if (total > this.maxSize) await rm(entry.path, { force: true });
+    }
+  }
+}
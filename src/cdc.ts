@@ -0,0 +1,90 @@
+/**
+ * OCFT - Content-Defined Chunking
+ * Chunk boundaries follow the content (gear rolling hash), so an edit only changes the
+ * chunks around it and the rest of a re-sent file can come from the receiver's cache
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { FileHandle } from 'fs/promises';
+import { ChunkRef } from './protocol.js';
+import { Chunk, sha256 } from './chunker.js';
+
+// Offers list every chunk: larger files fall back to fixed chunks
+export const MAX_CONTENT_CHUNKS = 4096;
+
+// Gear table: fixed pseudo-random values so the same content always splits the same way
+const GEAR = Array.from({ length: 256 }, (_, i) => createHash('sha256').update(`ocft-gear-${i}`).digest().readUInt32BE(0));
+
+const READ_BLOCK_SIZE = 1024 * 1024;
+
+// Split a file into chunks of maxChunkSize / 4 to maxChunkSize bytes (about half on average)
+export async function getContentChunks(filePath: string, maxChunkSize: number): Promise<ChunkRef[]> {
+  const minChunkSize = Math.max(1, Math.floor(maxChunkSize / 4));
+  const bits = Math.max(1, Math.round(Math.log2(maxChunkSize / 4)));
+  const shift = 32 - bits;  // Boundary where the top bits of the rolling hash are zero
+  
+  const chunks: ChunkRef[] = [];
+  let hash = createHash('sha256');
+  let rolling = 0;
+  let size = 0;
+  
+  for await (const block of createReadStream(filePath, { highWaterMark: READ_BLOCK_SIZE }) as AsyncIterable<Buffer>) {
+    let start = 0;
+    for (let i = 0; i < block.length; i++) {
+      rolling = ((rolling << 1) + GEAR[block[i]]) >>> 0;
+      size++;
+      if (size >= maxChunkSize || (size >= minChunkSize && rolling >>> shift === 0)) {
+        hash.update(block.subarray(start, i + 1));
+        chunks.push({ size, hash: hash.digest('hex') });
+        hash = createHash('sha256');
+        start = i + 1;
+        rolling = 0;
+        size = 0;
+      }
+    }
+    hash.update(block.subarray(start));
+  }
+  if (size > 0) {
+    chunks.push({ size, hash: hash.digest('hex') });
+  }
+  return chunks;
+}
+
+// Offset of each chunk in the file
+export function chunkOffsets(chunks: ChunkRef[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const chunk of chunks) {
+    offsets.push(offset);
+    offset += chunk.size;
+  }
+  return offsets;
+}
+
+// Peer-supplied layout must cover exactly the announced file size in valid chunks
+export function isValidContentLayout(chunks: unknown, size: number, maxChunkSize: number): chunks is ChunkRef[] {
+  if (!Array.isArray(chunks) || chunks.length === 0 || chunks.length > MAX_CONTENT_CHUNKS) return false;
+  
+  let total = 0;
+  for (const chunk of chunks as Partial<ChunkRef>[]) {
+    if (!Number.isSafeInteger(chunk?.size) || chunk!.size! <= 0 || chunk!.size! > maxChunkSize) return false;
+    if (typeof chunk!.hash !== 'string' || !/^[0-9a-f]{64}$/.test(chunk!.hash)) return false;
+    total += chunk!.size!;
+  }
+  return total === size;
+}
+
+// Read one chunk of a content-defined layout
+export async function readContentChunk(
+  handle: FileHandle,
+  chunks: ChunkRef[],
+  index: number,
+  offsets = chunkOffsets(chunks)
+): Promise<Chunk> {
+  const offset = offsets[index];
+  const buffer = Buffer.alloc(chunks[index].size);
+  const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+  const data = buffer.subarray(0, bytesRead);
+  return { index, data, hash: sha256(data) };
+}
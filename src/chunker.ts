@@ -4,7 +4,13 @@
  */
 
 import { createHash } from 'crypto';
-import { readFile, writeFile, stat } from 'fs/promises';
+import { createReadStream, constants } from 'fs';
+import { stat, open, rename, rm, mkdir, FileHandle } from 'fs/promises';
+import { dirname } from 'path';
+import { promisify } from 'util';
+import { gzip, gunzip, brotliCompress, brotliDecompress, constants as zlibConstants } from 'zlib';
+import { ChunkCipher } from './crypto.js';
+import { CompressionAlgorithm, ChunkRef } from './protocol.js';
 
 export const DEFAULT_CHUNK_SIZE = 48 * 1024; // 48KB (safe for base64 in messages)
 
@@ -23,68 +29,115 @@ export interface Chunk {
   hash: string;
 }
 
+// Guess mime type from extension
+const MIME_TYPES: Record<string, string> = {
+  'txt': 'text/plain',
+  'json': 'application/json',
+  'js': 'text/javascript',
+  'ts': 'text/typescript',
+  'html': 'text/html',
+  'css': 'text/css',
+  'md': 'text/markdown',
+  'png': 'image/png',
+  'jpg': 'image/jpeg',
+  'jpeg': 'image/jpeg',
+  'gif': 'image/gif',
+  'webp': 'image/webp',
+  'pdf': 'application/pdf',
+  'zip': 'application/zip',
+  'tar': 'application/x-tar',
+  'gz': 'application/gzip',
+};
+
+// Formats that are compressed already: compressing their chunks again only costs time
+const COMPRESSED_MIME_TYPES = new Set([
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/zip', 'application/gzip'
+]);
+
+export function isCompressedMimeType(mimeType: string): boolean {
+  return COMPRESSED_MIME_TYPES.has(mimeType);
+}
+
 // Calculate SHA-256 hash
 export function sha256(data: Buffer | string): string {
   return createHash('sha256').update(data).digest('hex');
 }
 
+// Calculate SHA-256 hash of a file by streaming it
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const data of createReadStream(filePath)) {
+    hash.update(data);
+  }
+  return hash.digest('hex');
+}
+
 // Get file info without loading entire file
 export async function getFileInfo(
   filePath: string,
   chunkSize = DEFAULT_CHUNK_SIZE
 ): Promise<FileInfo> {
   const stats = await stat(filePath);
-  const data = await readFile(filePath);
-  const hash = sha256(data);
+  const hash = await sha256File(filePath);
   const totalChunks = Math.ceil(stats.size / chunkSize);
-  
-  // Guess mime type from extension
   const ext = filePath.split('.').pop()?.toLowerCase() || '';
-  const mimeTypes: Record<string, string> = {
-    'txt': 'text/plain',
-    'json': 'application/json',
-    'js': 'text/javascript',
-    'ts': 'text/typescript',
-    'html': 'text/html',
-    'css': 'text/css',
-    'md': 'text/markdown',
-    'png': 'image/png',
-    'jpg': 'image/jpeg',
-    'jpeg': 'image/jpeg',
-    'gif': 'image/gif',
-    'webp': 'image/webp',
-    'pdf': 'application/pdf',
-    'zip': 'application/zip',
-    'tar': 'application/x-tar',
-    'gz': 'application/gzip',
-  };
   
   return {
     filename: filePath.split('/').pop() || 'file',
     size: stats.size,
-    mimeType: mimeTypes[ext] || 'application/octet-stream',
+    mimeType: MIME_TYPES[ext] || 'application/octet-stream',
     hash,
     chunkSize,
     totalChunks
   };
 }
 
-// Read a specific chunk from file
+// Read a specific chunk from file (pass an open handle to avoid reopening per chunk)
 export async function readChunk(
-  filePath: string,
+  file: string | FileHandle,
   index: number,
   chunkSize = DEFAULT_CHUNK_SIZE
 ): Promise<Chunk> {
-  const data = await readFile(filePath);
-  const start = index * chunkSize;
-  const end = Math.min(start + chunkSize, data.length);
-  const chunkData = data.subarray(start, end);
+  const handle = typeof file === 'string' ? await open(file, 'r') : file;
   
-  return {
-    index,
-    data: chunkData,
-    hash: sha256(chunkData)
-  };
+  try {
+    const buffer = Buffer.alloc(chunkSize);
+    const { bytesRead } = await handle.read(buffer, 0, chunkSize, index * chunkSize);
+    const chunkData = buffer.subarray(0, bytesRead);
+    
+    return {
+      index,
+      data: chunkData,
+      hash: sha256(chunkData)
+    };
+  } finally {
+    if (typeof file === 'string') await handle.close();
+  }
+}
+
+// ============ COMPRESSION ============
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const brotliCompressAsync = promisify(brotliCompress);
+const brotliDecompressAsync = promisify(brotliDecompress);
+
+// Brotli's default quality (11) is far too slow for streaming chunks
+const BROTLI_QUALITY = 5;
+
+// Compress chunk data; returns null when that would not make it smaller
+export async function compressChunk(data: Buffer, algorithm: CompressionAlgorithm): Promise<Buffer | null> {
+  const compressed = algorithm === 'br'
+    ? await brotliCompressAsync(data, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY } })
+    : await gzipAsync(data);
+  return compressed.length < data.length ? compressed : null;
+}
+
+// Decompress chunk data, refusing to inflate beyond maxSize (one chunk)
+export async function decompressChunk(data: Buffer, algorithm: CompressionAlgorithm, maxSize: number): Promise<Buffer> {
+  return algorithm === 'br'
+    ? brotliDecompressAsync(data, { maxOutputLength: Math.max(maxSize, 1) })
+    : gunzipAsync(data, { maxOutputLength: Math.max(maxSize, 1) });
 }
 
 // Read all chunks from file
@@ -92,56 +145,141 @@ export async function* readAllChunks(
   filePath: string,
   chunkSize = DEFAULT_CHUNK_SIZE
 ): AsyncGenerator<Chunk> {
-  const data = await readFile(filePath);
-  const totalChunks = Math.ceil(data.length / chunkSize);
+  const handle = await open(filePath, 'r');
   
-  for (let i = 0; i < totalChunks; i++) {
-    const start = i * chunkSize;
-    const end = Math.min(start + chunkSize, data.length);
-    const chunkData = data.subarray(start, end);
-    
-    yield {
-      index: i,
-      data: chunkData,
-      hash: sha256(chunkData)
-    };
+  try {
+    for (let i = 0; ; i++) {
+      const chunk = await readChunk(handle, i, chunkSize);
+      if (chunk.data.length === 0) break;
+      yield chunk;
+      if (chunk.data.length < chunkSize) break;
+    }
+  } finally {
+    await handle.close();
   }
 }
 
+// Suffix for partially received files (kept next to the final path)
+export const PART_SUFFIX = '.ocft-part';
+
 // Chunk assembler for receiving
+// Verified chunks are written straight into a sparse partial file at index * chunkSize
+// (or at their offset in a content-defined layout), so memory stays flat and received
+// data survives restarts.
 export class ChunkAssembler {
-  private chunks: Map<number, Buffer> = new Map();
+  private received: Set<number>;
   private expectedHash: string;
   private totalChunks: number;
+  private chunkSize: number;
   private outputPath: string;
+  private handle: Promise<FileHandle> | null = null; // Shared so concurrent chunks open the file once
+  private resuming: boolean;
+  private cipher?: ChunkCipher;
+  private layout?: ChunkRef[];
+  private offsets?: number[];
+  readonly partPath: string;
   
-  constructor(outputPath: string, expectedHash: string, totalChunks: number) {
+  constructor(
+    outputPath: string,
+    expectedHash: string,
+    totalChunks: number,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    options: {
+      receivedChunks?: Iterable<number>;  // Chunks already in the partial file (resume)
+      cipher?: ChunkCipher;               // Decrypt end-to-end encrypted chunks
+      layout?: ChunkRef[];                // Content-defined layout (chunk sizes and hashes)
+    } = {}
+  ) {
     this.outputPath = outputPath;
+    this.partPath = `${outputPath}${PART_SUFFIX}`;
     this.expectedHash = expectedHash;
     this.totalChunks = totalChunks;
+    this.chunkSize = chunkSize;
+    this.received = new Set(options.receivedChunks);
+    this.resuming = this.received.size > 0;
+    this.cipher = options.cipher;
+    this.layout = options.layout;
+    if (options.layout) {
+      let offset = 0;
+      this.offsets = options.layout.map(chunk => (offset += chunk.size) - chunk.size);
+    }
   }
   
-  // Add a chunk
-  addChunk(index: number, data: Buffer, expectedChunkHash: string): boolean {
+  // Add a chunk (decrypted first when a cipher is set, then decompressed if it was compressed)
+  async addChunk(
+    index: number,
+    data: Buffer,
+    expectedChunkHash: string,
+    compression?: CompressionAlgorithm
+  ): Promise<boolean> {
+    if (!Number.isInteger(index) || index < 0 || index >= this.totalChunks) {
+      console.error(`Chunk ${index} out of range (0-${this.totalChunks - 1})`);
+      return false;
+    }
+    
+    if (this.cipher) {
+      try {
+        data = this.cipher.decrypt(index, data);
+      } catch {
+        console.error(`Chunk ${index} failed decryption`);
+        return false;
+      }
+    }
+    
+    if (compression) {
+      try {
+        data = await decompressChunk(data, compression, this.chunkSize);
+      } catch {
+        console.error(`Chunk ${index} failed decompression`);
+        return false;
+      }
+    }
+    
+    return this.writeChunk(index, data, expectedChunkHash);
+  }
+  
+  // Add a chunk of a content-defined layout from a local cache (plaintext, checked against the layout)
+  async addCachedChunk(index: number, data: Buffer): Promise<boolean> {
+    if (!this.layout?.[index]) return false;
+    return this.writeChunk(index, data, this.layout[index].hash);
+  }
+  
+  private async writeChunk(index: number, data: Buffer, expectedChunkHash: string): Promise<boolean> {
+    const expectedSize = this.layout?.[index].size;
+    if (expectedSize !== undefined && data.length !== expectedSize) {
+      console.error(`Chunk ${index} has the wrong size: ${data.length} bytes, expected ${expectedSize}`);
+      return false;
+    }
+    
+    if (data.length > this.chunkSize) {
+      console.error(`Chunk ${index} too large: ${data.length} bytes exceeds ${this.chunkSize}`);
+      return false;
+    }
+    
+    // The layout fixes every chunk's hash up front
+    const expected = this.layout ? this.layout[index].hash : expectedChunkHash;
     const actualHash = sha256(data);
-    if (actualHash !== expectedChunkHash) {
-      console.error(`Chunk ${index} hash mismatch: expected ${expectedChunkHash}, got ${actualHash}`);
+    if (actualHash !== expected || actualHash !== expectedChunkHash) {
+      console.error(`Chunk ${index} hash mismatch: expected ${expected}, got ${actualHash}`);
       return false;
     }
-    this.chunks.set(index, data);
+    
+    const handle = await this.openPart();
+    await handle.write(data, 0, data.length, this.offsets ? this.offsets[index] : index * this.chunkSize);
+    this.received.add(index);
     return true;
   }
   
   // Check if all chunks received
   isComplete(): boolean {
-    return this.chunks.size === this.totalChunks;
+    return this.received.size === this.totalChunks;
   }
   
   // Get missing chunk indices
   getMissingChunks(): number[] {
     const missing: number[] = [];
     for (let i = 0; i < this.totalChunks; i++) {
-      if (!this.chunks.has(i)) {
+      if (!this.received.has(i)) {
         missing.push(i);
       }
     }
@@ -150,36 +288,60 @@ export class ChunkAssembler {
   
   // Progress (0-100)
   getProgress(): number {
-    return Math.round((this.chunks.size / this.totalChunks) * 100);
+    if (this.totalChunks === 0) return 100;
+    return Math.round((this.received.size / this.totalChunks) * 100);
   }
   
-  // Assemble and save file
+  // Verify the partial file and move it into place
   async assemble(): Promise<{ success: boolean; error?: string }> {
     if (!this.isComplete()) {
       return { success: false, error: `Missing chunks: ${this.getMissingChunks().join(', ')}` };
     }
     
-    // Combine chunks in order
-    const buffers: Buffer[] = [];
-    for (let i = 0; i < this.totalChunks; i++) {
-      const chunk = this.chunks.get(i);
-      if (!chunk) {
-        return { success: false, error: `Missing chunk ${i}` };
-      }
-      buffers.push(chunk);
-    }
+    // Make sure the partial file exists (empty files have no chunks) and is flushed
+    await this.openPart();
+    await this.close();
     
-    const combined = Buffer.concat(buffers);
-    const actualHash = sha256(combined);
+    const actualHash = await sha256File(this.partPath);
     
     if (actualHash !== this.expectedHash) {
+      await rm(this.partPath, { force: true });
       return { 
         success: false, 
         error: `File hash mismatch: expected ${this.expectedHash}, got ${actualHash}` 
       };
     }
     
-    await writeFile(this.outputPath, combined);
+    await rename(this.partPath, this.outputPath);
     return { success: true };
   }
+  
+  // Close the partial file (received data stays on disk for resume)
+  async close(): Promise<void> {
+    if (!this.handle) return;
+    const handle = this.handle;
+    this.handle = null;
+    await (await handle.catch(() => null))?.close(); // A failed open left nothing to close
+  }
+  
+  // Open the partial file (and its directory), truncating leftovers unless resuming.
+  // A failed open is not kept: the next chunk tries again.
+  private async openPart(): Promise<FileHandle> {
+    if (!this.handle) {
+      const flags = this.resuming ? constants.O_RDWR | constants.O_CREAT : 'w+';
+      const handle = mkdir(dirname(this.partPath), { recursive: true })
+        .then(() => open(this.partPath, flags))
+        .then((file) => {
+          this.resuming = true;
+          return file;
+        }, (err: Error) => {
+          throw new Error(`Cannot open partial file ${this.partPath}: ${err.message}`);
+        });
+      handle.catch(() => {
+        if (this.handle === handle) this.handle = null;
+      });
+      this.handle = handle;
+    }
+    return this.handle;
+  }
 }
@@ -4,32 +4,76 @@
  */
 
 import { Command } from 'commander';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync, chmodSync } from 'fs';
 import { homedir } from 'os';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { randomBytes, createHash } from 'crypto';
+import { spawn } from 'child_process';
 import { nanoid } from 'nanoid';
+import { TransferManager, TransferManagerConfig, TransferStall } from './transfer.js';
+import { TransferInfo, ManifestEntry, CompressionAlgorithm, COMPRESSION_ALGORITHMS } from './protocol.js';
+import { Transport, LineTransport, WebSocketTransport, RelayTransport } from './transport.js';
+import { RelayServer, DroppedFrame, DEFAULT_RELAY_PORT } from './relay.js';
+import { FileTransferStore } from './store.js';
+import { generateKeyPair, isValidPublicKey } from './crypto.js';
+import { CollisionPolicy, resolveDownloadPath } from './paths.js';
+import {
+  IPFSConfig, IPFSUploadResult, downloadFromIPFS, parseIPFSLink, listIPFSProviders, loadIPFSPlugins, getIPFSPinStatus
+} from './ipfs.js';
+import { FilePinLedger, releasePin } from './pins.js';
 
 const CONFIG_DIR = join(homedir(), '.ocft');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
+const RELAY_NODES_FILE = join(CONFIG_DIR, 'relay-nodes.json');
 const VERSION = '1.1.3';
 
+interface PeerConfig {
+  id: string;
+  secret: string;
+  name?: string;
+  expiresAt?: string;
+  publicKey?: string;   // Pinned X25519 public key
+}
+
 interface OCFTConfig {
   nodeId: string;
   secret: string;
   secretTTL?: number;   // TTL in hours (default: no expiry)
   createdAt: string;
-  trustedPeers: { id: string; secret: string; name?: string; expiresAt?: string }[];
+  trustedPeers: PeerConfig[];
   downloadDir: string;
   maxFileSize?: number; // Max file size in bytes (default: 100MB)
+  onCollision?: CollisionPolicy;  // Existing file with same name: rename, overwrite or reject
+  compression?: CompressionAlgorithm; // Compress outgoing chunks (gzip or br)
+  chunking?: 'fixed' | 'content';     // Content-defined chunks let receivers reuse cached ones
+  maxMessageChars?: number;           // Longest message the chat bridge carries (chunks are sized to fit)
+  // End-to-end encryption
+  publicKey?: string;         // X25519 public key (shared via ocft export)
+  privateKey?: string;        // X25519 private key
+  encryptionEnabled?: boolean;  // Encrypt outgoing transfers
+  requireEncryption?: boolean;  // Reject unencrypted incoming transfers
+  legacySecrets?: boolean;      // Send/accept plaintext secrets in offers (old peers)
+  trustById?: boolean;          // Auto-accept trusted peers by ID alone, without a proof
   // IPFS settings
   ipfsEnabled?: boolean;      // Enable IPFS fallback
   ipfsThreshold?: number;     // Size threshold for IPFS (bytes, default: 50MB)
-  ipfsProvider?: 'pinata' | 'filebase' | 'kubo';  // IPFS provider
-  ipfsApiKey?: string;        // API key (Pinata JWT or Filebase access key)
-  ipfsApiSecret?: string;     // API secret (Filebase only)
+  ipfsProvider?: string;      // IPFS provider (built in or from a plugin)
+  ipfsPlugins?: string[];     // Provider plugin modules (package names or paths)
+  ipfsApiKey?: string;        // API key (Pinata JWT, S3 access key or web3.storage token)
+  ipfsApiSecret?: string;     // API secret (S3 providers only)
+  ipfsApiUrl?: string;        // web3.storage-style API URL
   ipfsKuboUrl?: string;       // Kubo API URL
+  ipfsBucket?: string;        // S3 bucket
+  ipfsRegion?: string;        // S3 region
+  ipfsEndpoint?: string;      // S3 endpoint
+  ipfsCidHeader?: string;     // S3 response header holding the CID
   ipfsGateway?: string;       // Custom public gateway
+  ipfsGateways?: string[];    // Fallback gateways for downloads
+  ipfsAutoUnpin?: boolean;    // Unpin uploads once the receiver has the file
+  ipfsEncrypt?: boolean;      // Encrypt files before uploading them to IPFS
+  // Relay settings
+  relayUrl?: string;          // Relay server for chunk data (ws://host:port)
+  relayToken?: string;        // Token the relay requires
 }
 
 // Generate unique node ID
@@ -59,12 +103,218 @@ function loadConfig(): OCFTConfig | null {
   }
 }
 
-// Save config
+// Save config (holds the node secret and private key: owner-only)
 function saveConfig(config: OCFTConfig): void {
+  ensureConfigDir();
+  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), { mode: 0o600 });
+  chmodSync(CONFIG_FILE, 0o600); // Files from older versions were world-readable
+}
+
+function ensureConfigDir(): void {
   if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+    mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
+  }
+  chmodSync(CONFIG_DIR, 0o700);
+}
+
+// Nodes a relay run on this machine accepts (nodeId -> token)
+function loadRelayNodes(file = RELAY_NODES_FILE): Record<string, string> {
+  if (!existsSync(file)) return {};
+  return JSON.parse(readFileSync(file, 'utf-8'));
+}
+
+function saveRelayNodes(nodes: Record<string, string>): void {
+  ensureConfigDir();
+  writeFileSync(RELAY_NODES_FILE, JSON.stringify(nodes, null, 2), { mode: 0o600 });
+}
+
+// Resolve a peer by node ID or friendly name (unknown peers are used as-is)
+function resolvePeerId(config: OCFTConfig, peer: string): string {
+  const found = config.trustedPeers.find(p => p.id === peer || p.name === peer);
+  return found?.id || peer;
+}
+
+// Build TransferManager config from CLI config
+function toManagerConfig(config: OCFTConfig): TransferManagerConfig {
+  const managerConfig: TransferManagerConfig = {
+    botId: config.nodeId,
+    secret: config.secret,
+    downloadDir: config.downloadDir,
+    autoAccept: !!config.trustById,
+    trustedPeers: config.trustedPeers.map(p => ({
+      id: p.id,
+      secret: p.secret,
+      name: p.name,
+      expiresAt: p.expiresAt ? new Date(p.expiresAt).getTime() : undefined,
+      publicKey: p.publicKey
+    }))
+  };
+  
+  // Only override manager defaults when explicitly configured
+  if (config.secretTTL) managerConfig.secretTTL = config.secretTTL * 60 * 60 * 1000;
+  if (config.maxFileSize) managerConfig.maxFileSize = config.maxFileSize;
+  if (config.legacySecrets) managerConfig.legacySecrets = true;
+  if (config.onCollision) managerConfig.onCollision = config.onCollision;
+  if (config.compression) managerConfig.compression = config.compression;
+  if (config.chunking) managerConfig.chunking = config.chunking;
+  if (config.publicKey && config.privateKey) {
+    managerConfig.keyPair = { publicKey: config.publicKey, privateKey: config.privateKey };
+    managerConfig.encrypt = config.encryptionEnabled;
+    managerConfig.requireEncryption = config.requireEncryption;
+  }
+  if (config.ipfsEnabled) managerConfig.ipfs = toIPFSConfig(config);
+  if (config.ipfsAutoUnpin) managerConfig.autoUnpin = true;
+  
+  return managerConfig;
+}
+
+// Parse a duration like 7d, 12h or 30m into milliseconds
+function parseDuration(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/i);
+  if (!match) return null;
+  
+  const multipliers: Record<string, number> = {
+    'm': 60 * 1000,
+    'h': 60 * 60 * 1000,
+    'd': 24 * 60 * 60 * 1000,
+    'w': 7 * 24 * 60 * 60 * 1000
+  };
+  return parseFloat(match[1]) * multipliers[match[2].toLowerCase()];
+}
+
+// Parse a size like 64MB, 1GB or 500KB into bytes
+function parseSize(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/i);
+  if (!match) return null;
+  
+  const multipliers: Record<string, number> = {
+    'B': 1,
+    'KB': 1024,
+    'MB': 1024 * 1024,
+    'GB': 1024 * 1024 * 1024,
+    'TB': 1024 * 1024 * 1024 * 1024
+  };
+  return Math.floor(parseFloat(match[1]) * multipliers[(match[2] || 'B').toUpperCase()]);
+}
+
+function toIPFSConfig(config: OCFTConfig): IPFSConfig {
+  return {
+    provider: config.ipfsProvider,
+    apiKey: config.ipfsApiKey,
+    apiSecret: config.ipfsApiSecret,
+    apiUrl: config.ipfsApiUrl,
+    kuboUrl: config.ipfsKuboUrl,
+    bucket: config.ipfsBucket,
+    region: config.ipfsRegion,
+    endpoint: config.ipfsEndpoint,
+    cidHeader: config.ipfsCidHeader,
+    publicGateway: config.ipfsGateway,
+    gateways: config.ipfsGateways,
+    threshold: config.ipfsThreshold,
+    encrypt: config.ipfsEncrypt
+  };
+}
+
+// ============ TRANSPORTS ============
+
+interface TransportOptions {
+  exec?: string;      // Bridge command speaking the line format
+  connect?: string;   // WebSocket URL of a listening node
+  listen?: string;    // Port to accept WebSocket connections on
+  relay?: string | false;  // Relay URL for chunk data (default: configured relay, false: none)
+}
+
+// Open the transport selected by CLI options (stdin/stdout lines by default)
+async function openTransport(config: OCFTConfig, options: TransportOptions): Promise<Transport> {
+  if (options.connect) {
+    return WebSocketTransport.connect(options.connect, { nodeId: config.nodeId });
+  }
+  if (options.listen) {
+    return WebSocketTransport.listen(parseInt(options.listen, 10), { nodeId: config.nodeId });
+  }
+  
+  let chat: Transport;
+  if (options.exec) {
+    // Bridge process speaks the same line format on its stdin/stdout
+    const child = spawn(options.exec, { shell: true, stdio: ['pipe', 'pipe', 'inherit'] });
+    chat = new LineTransport(child.stdout, child.stdin, {
+      maxMessageChars: config.maxMessageChars,
+      onClose: () => child.kill()
+    });
+  } else {
+    chat = new LineTransport(process.stdin, process.stdout, { maxMessageChars: config.maxMessageChars });
+  }
+  
+  // Chunks take the relay when the peer uses it too; the handshake stays on chat
+  const relay = options.relay === false ? undefined : options.relay ?? config.relayUrl;
+  if (!relay) return chat;
+  
+  if (!config.encryptionEnabled) {
+    console.error('⚠️  Relay operators can read unencrypted chunks. Enable encryption: ocft encryption-enable');
+  }
+  try {
+    return await RelayTransport.connect(chat, relay, { nodeId: config.nodeId, token: config.relayToken });
+  } catch (err) {
+    console.error(`⚠️  Relay ${relay} unavailable (${(err as Error).message}), sending chunks over chat`);
+    return chat;
   }
-  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+}
+
+// Resolve once a transfer reaches a final state
+function waitForTransfer(manager: TransferManager, transferId: string): Promise<TransferInfo> {
+  return new Promise((resolve) => {
+    const done = (transfer: TransferInfo) => {
+      if (transfer.id !== transferId) return;
+      manager.off('transfer-completed', done);
+      manager.off('transfer-failed', done);
+      manager.off('transfer-rejected', done);
+      resolve(transfer);
+    };
+    manager.on('transfer-completed', done);
+    manager.on('transfer-failed', done);
+    manager.on('transfer-rejected', done);
+  });
+}
+
+// Progress output goes to stderr: stdout carries protocol messages
+function reportProgress(manager: TransferManager): void {
+  manager.on('chunk-sent', ({ transfer, index }: { transfer: TransferInfo; index: number }) => {
+    const progress = Math.round(((index + 1) / transfer.totalChunks) * 100);
+    process.stderr.write(`\r📤 ${transfer.filename}: ${progress}% (${index + 1}/${transfer.totalChunks})`);
+  });
+  manager.on('chunk-received', ({ transfer, progress }: { transfer: TransferInfo; progress: number }) => {
+    process.stderr.write(`\r📥 ${transfer.filename}: ${progress}% (${transfer.receivedChunks.size}/${transfer.totalChunks})`);
+  });
+  manager.on('chunks-reused', ({ transfer, count }: { transfer: TransferInfo; count: number }) => {
+    console.error(`♻️  ${transfer.filename}: ${count} cached chunks reused`);
+  });
+  manager.on('file-sent', ({ entry }: { entry: ManifestEntry }) => {
+    console.error(`\n📄 Sent ${entry.path}`);
+  });
+  manager.on('file-received', ({ entry, path }: { entry: ManifestEntry; path: string }) => {
+    console.error(`\n📄 Received ${entry.path} (${path})`);
+  });
+  manager.on('transfer-completed', (t: TransferInfo) => {
+    console.error(`\n✅ ${t.direction === 'send' ? 'Sent' : 'Received'}: ${t.filename}${t.localPath ? ` (${t.localPath})` : ''}`);
+  });
+  manager.on('transfer-failed', (t: TransferInfo) => {
+    console.error(`\n❌ Transfer failed: ${t.filename} - ${t.error}`);
+  });
+  manager.on('transfer-rejected', (t: TransferInfo) => {
+    console.error(`\n❌ Transfer rejected: ${t.filename} - ${t.error}`);
+  });
+  manager.on('ipfs-uploaded', ({ transfer, result }: { transfer: TransferInfo; result: IPFSUploadResult }) => {
+    console.error(`📦 ${transfer.filename} uploaded to IPFS via ${result.provider} (${result.cid})`);
+  });
+  manager.on('ipfs-unpinned', ({ transfer, cid }: { transfer: TransferInfo; cid: string }) => {
+    console.error(`📌 ${transfer.filename} unpinned from IPFS (${cid})`);
+  });
+  manager.on('security-warning', ({ reason }: { reason: string }) => {
+    console.error(`\n⚠️  Dropped message: ${reason}`);
+  });
+  manager.on('transfer-stalled', ({ transfer, phase, attempt }: TransferStall) => {
+    console.error(`\n⏳ ${transfer.filename}: no response from ${transfer.peerId} (${phase}), retry ${attempt}`);
+  });
 }
 
 const program = new Command();
@@ -74,6 +324,20 @@ program
   .description('OpenClaw File Transfer Protocol CLI')
   .version(VERSION);
 
+// Register IPFS provider plugins before any command runs
+program.hook('preAction', async () => {
+  const plugins = loadConfig()?.ipfsPlugins;
+  if (!plugins?.length) return;
+  
+  for (const plugin of plugins) {
+    try {
+      await loadIPFSPlugins([plugin]);
+    } catch (err) {
+      console.error(`⚠️  Failed to load IPFS plugin ${plugin}: ${(err as Error).message}`);
+    }
+  }
+});
+
 // ============ INIT ============
 program
   .command('init')
@@ -89,12 +353,15 @@ program
       return;
     }
     
+    const keyPair = generateKeyPair();
     const config: OCFTConfig = {
       nodeId: generateNodeId(),
       secret: generateSecret(),
       createdAt: new Date().toISOString(),
       trustedPeers: [],
-      downloadDir: join(homedir(), 'Downloads', 'ocft')
+      downloadDir: join(homedir(), 'Downloads', 'ocft'),
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey
     };
     
     saveConfig(config);
@@ -151,17 +418,36 @@ program
     console.log(`Created:      ${config.createdAt}`);
     console.log(`Downloads:    ${config.downloadDir}`);
     console.log(`Max Size:     ${formatSize(maxSize)}`);
-    console.log(`Trusted:      ${config.trustedPeers.length} peers`);
+    console.log(`Trusted:      ${config.trustedPeers.length} peers${config.trustById ? ' (by ID, no proof)' : ''}`);
+    console.log(`Encryption:   ${config.encryptionEnabled ? 'On' : 'Off'}${config.requireEncryption ? ' (required)' : ''}`);
+    console.log(`Compression:  ${config.compression || 'Off'}`);
+    console.log(`Chunking:     ${config.chunking || 'fixed'}`);
+    console.log(`Msg Limit:    ${config.maxMessageChars ? `${config.maxMessageChars} chars` : 'None'}`);
+    console.log(`Relay:        ${config.relayUrl ? `${config.relayUrl}${config.relayToken ? ' (token set)' : ''}` : 'Off'}`);
     console.log('');
     console.log('📦 IPFS Fallback:');
     console.log(`  Enabled:    ${config.ipfsEnabled ? 'Yes' : 'No'}`);
     console.log(`  Provider:   ${config.ipfsProvider || 'pinata'}`);
     console.log(`  Threshold:  ${formatSize(ipfsThreshold)} (files larger use IPFS)`);
+    console.log(`  Encrypted:  ${config.ipfsEncrypt ? 'Yes' : 'No'}`);
+    console.log(`  Auto-unpin: ${config.ipfsAutoUnpin ? 'On' : 'Off'}`);
     if (config.ipfsProvider === 'kubo') {
       console.log(`  Kubo URL:   ${config.ipfsKuboUrl || 'http://localhost:5001'}`);
     } else {
       console.log(`  API Key:    ${config.ipfsApiKey ? config.ipfsApiKey.slice(0, 8) + '***' : 'Not set'}`);
     }
+    if (config.ipfsProvider === 'filebase' || config.ipfsProvider === 's3') {
+      console.log(`  Bucket:     ${config.ipfsBucket || 'ocft-uploads'} (${config.ipfsRegion || 'us-east-1'})`);
+      if (config.ipfsEndpoint || config.ipfsProvider === 's3') {
+        console.log(`  Endpoint:   ${config.ipfsEndpoint || 'Not set'}`);
+      }
+      if (config.ipfsCidHeader) {
+        console.log(`  CID Header: ${config.ipfsCidHeader}`);
+      }
+    }
+    if (config.ipfsProvider === 'w3s') {
+      console.log(`  API URL:    ${config.ipfsApiUrl || 'https://api.web3.storage'}`);
+    }
     
     if (config.trustedPeers.length > 0) {
       console.log('');
@@ -197,6 +483,7 @@ program
   .description('Add a trusted peer (auto-accept their files)')
   .option('-n, --name <name>', 'Friendly name for peer')
   .option('-t, --ttl <hours>', 'Trust expiry in hours (default: never)')
+  .option('-k, --key <publicKey>', 'Peer\'s public key for end-to-end encryption')
   .action((nodeId, secret, options) => {
     const config = loadConfig();
     if (!config) {
@@ -211,12 +498,20 @@ program
       return;
     }
     
-    const peer: { id: string; secret: string; name?: string; expiresAt?: string } = {
+    const peer: PeerConfig = {
       id: nodeId,
       secret: secret,
       name: options.name
     };
     
+    if (options.key) {
+      if (!isValidPublicKey(options.key)) {
+        console.log('❌ Invalid public key.');
+        return;
+      }
+      peer.publicKey = options.key;
+    }
+    
     if (options.ttl) {
       const hours = parseInt(options.ttl, 10);
       if (!isNaN(hours) && hours > 0) {
@@ -312,6 +607,103 @@ program
     console.log(`✅ Download directory set to: ${dir}`);
   });
 
+// ============ SET-COLLISION ============
+program
+  .command('set-collision <policy>')
+  .description('What to do when a received file already exists (rename, overwrite, reject)')
+  .action((policy) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    const validPolicies: CollisionPolicy[] = ['rename', 'overwrite', 'reject'];
+    if (!validPolicies.includes(policy.toLowerCase())) {
+      console.log(`❌ Invalid policy. Choose: ${validPolicies.join(', ')}`);
+      return;
+    }
+    
+    config.onCollision = policy.toLowerCase() as CollisionPolicy;
+    saveConfig(config);
+    console.log(`✅ Collision policy set to: ${config.onCollision}`);
+  });
+
+program
+  .command('set-compression <algorithm>')
+  .description(`Compress outgoing chunks (${COMPRESSION_ALGORITHMS.join(', ')}, off)`)
+  .action((algorithm) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    const choice = algorithm.toLowerCase();
+    if (choice === 'off') {
+      delete config.compression;
+      saveConfig(config);
+      console.log('✅ Compression disabled.');
+      return;
+    }
+    if (!COMPRESSION_ALGORITHMS.includes(choice)) {
+      console.log(`❌ Invalid algorithm. Choose: ${COMPRESSION_ALGORITHMS.join(', ')}, off`);
+      return;
+    }
+    
+    config.compression = choice as CompressionAlgorithm;
+    saveConfig(config);
+    console.log(`✅ Compression set to: ${config.compression} (skipped for already-compressed formats)`);
+  });
+
+program
+  .command('set-chunking <mode>')
+  .description('How outgoing files are split: fixed, or content (receivers reuse unchanged chunks)')
+  .action((mode) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    const choice = mode.toLowerCase();
+    if (choice !== 'fixed' && choice !== 'content') {
+      console.log('❌ Invalid mode. Choose: fixed, content');
+      return;
+    }
+    
+    config.chunking = choice;
+    saveConfig(config);
+    console.log(`✅ Chunking set to: ${config.chunking}`);
+  });
+
+program
+  .command('set-message-limit <chars>')
+  .description('Longest message the chat carries, e.g. 4096 for Telegram (off: no limit)')
+  .action((chars) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    if (chars.toLowerCase() === 'off') {
+      delete config.maxMessageChars;
+      saveConfig(config);
+      console.log('✅ Message limit removed.');
+      return;
+    }
+    const limit = parseInt(chars, 10);
+    if (!/^\d+$/.test(chars) || limit < 64) {
+      console.log('❌ Invalid limit. Give a number of characters (at least 64), or off');
+      return;
+    }
+    
+    config.maxMessageChars = limit;
+    saveConfig(config);
+    console.log(`✅ Message limit set to: ${limit} characters (longer messages are sent in parts)`);
+  });
+
 // ============ EXPORT ============
 program
   .command('export')
@@ -325,7 +717,8 @@ program
     
     const shareInfo = {
       nodeId: config.nodeId,
-      secret: config.secret
+      secret: config.secret,
+      publicKey: config.publicKey
     };
     
     const encoded = Buffer.from(JSON.stringify(shareInfo)).toString('base64url');
@@ -338,6 +731,9 @@ program
     console.log('Or separately:');
     console.log(`  Node ID: ${config.nodeId}`);
     console.log(`  Secret:  ${config.secret}`);
+    if (config.publicKey) {
+      console.log(`  Key:     ${config.publicKey}`);
+    }
   });
 
 // ============ IMPORT ============
@@ -367,12 +763,16 @@ program
         return;
       }
       
-      const peer: { id: string; secret: string; name?: string; expiresAt?: string } = {
+      const peer: PeerConfig = {
         id: decoded.nodeId,
         secret: decoded.secret,
         name: options.name
       };
       
+      if (decoded.publicKey && isValidPublicKey(decoded.publicKey)) {
+        peer.publicKey = decoded.publicKey;
+      }
+      
       if (options.ttl) {
         const hours = parseInt(options.ttl, 10);
         if (!isNaN(hours) && hours > 0) {
@@ -489,6 +889,164 @@ program
     console.log(`✅ Max file size set to: ${formatSize(bytes)}`);
   });
 
+// ============ LEGACY SECRETS ============
+program
+  .command('legacy-secrets-enable')
+  .description('Send and accept plaintext secrets in offers (for peers on older versions)')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.legacySecrets = true;
+    saveConfig(config);
+    console.log('⚠️  Legacy secrets enabled.');
+    console.log('   Secrets will be visible to anyone who can read the chat channel.');
+    console.log('   Disable once all peers are upgraded: ocft legacy-secrets-disable');
+  });
+
+program
+  .command('legacy-secrets-disable')
+  .description('Only use HMAC proofs for auto-accept (default)')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.legacySecrets = false;
+    saveConfig(config);
+    console.log('✅ Legacy secrets disabled. Offers carry HMAC proofs only.');
+  });
+
+program
+  .command('trust-by-id-enable')
+  .description('Auto-accept trusted peers by node ID alone, without an HMAC proof (insecure)')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.trustById = true;
+    saveConfig(config);
+    console.log('⚠️  Trusted peers are auto-accepted by node ID.');
+    console.log('   Anyone who can post to the chat channel under a trusted ID can send you files.');
+    console.log('   Disable with: ocft trust-by-id-disable');
+  });
+
+program
+  .command('trust-by-id-disable')
+  .description('Auto-accept only offers with a valid HMAC proof (default)')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.trustById = false;
+    saveConfig(config);
+    console.log('✅ Only offers with a valid proof are auto-accepted.');
+  });
+
+// ============ ENCRYPTION SETTINGS ============
+program
+  .command('encryption-enable')
+  .description('Enable end-to-end encryption for outgoing transfers')
+  .option('-r, --require', 'Also reject unencrypted incoming transfers')
+  .action((options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    // Nodes initialized before encryption support have no key pair yet
+    if (!config.publicKey || !config.privateKey) {
+      const keyPair = generateKeyPair();
+      config.publicKey = keyPair.publicKey;
+      config.privateKey = keyPair.privateKey;
+      console.log('🔑 Generated encryption key pair.');
+      console.log('   Re-share your connection info with: ocft export');
+    }
+    
+    config.encryptionEnabled = true;
+    if (options.require) {
+      config.requireEncryption = true;
+    }
+    saveConfig(config);
+    console.log('✅ End-to-end encryption enabled.');
+    if (options.require) {
+      console.log('   Unencrypted incoming transfers will be rejected.');
+    }
+  });
+
+program
+  .command('encryption-disable')
+  .description('Disable end-to-end encryption for outgoing transfers')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.encryptionEnabled = false;
+    config.requireEncryption = false;
+    saveConfig(config);
+    console.log('✅ End-to-end encryption disabled.');
+  });
+
+// ============ RELAY SETTINGS ============
+program
+  .command('set-relay <url>')
+  .description('Send chunk data through a relay server (ws://host:port) when the peer uses it too')
+  .option('-t, --token <token>', "This node's token on the relay (from ocft relay-add-node)")
+  .action((url, options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'ws:' && parsed.protocol !== 'wss:') throw new Error();
+    } catch {
+      console.log('❌ Invalid relay URL. Use: ws://host:port or wss://host');
+      return;
+    }
+    
+    config.relayUrl = url;
+    config.relayToken = options.token;
+    saveConfig(config);
+    console.log(`✅ Relay set to: ${url}`);
+    if (!config.encryptionEnabled) {
+      console.log('⚠️  Enable encryption so the relay only sees ciphertext: ocft encryption-enable');
+    }
+  });
+
+program
+  .command('relay-disable')
+  .description('Send chunk data over the chat channel only')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    delete config.relayUrl;
+    delete config.relayToken;
+    saveConfig(config);
+    console.log('✅ Relay disabled.');
+  });
+
 // ============ IPFS SETTINGS ============
 program
   .command('ipfs-enable')
@@ -504,7 +1062,7 @@ program
     saveConfig(config);
     console.log('✅ IPFS fallback enabled.');
     console.log(`   Provider: ${config.ipfsProvider || 'pinata'}`);
-    console.log('   Set provider with: ocft set-ipfs-provider <pinata|filebase|kubo>');
+    console.log(`   Set provider with: ocft set-ipfs-provider <${listIPFSProviders().map(p => p.name).join('|')}>`);
   });
 
 program
@@ -522,9 +1080,72 @@ program
     console.log('✅ IPFS fallback disabled.');
   });
 
+program
+  .command('ipfs-encrypt-enable')
+  .description('Encrypt files before uploading them to IPFS')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.ipfsEncrypt = true;
+    saveConfig(config);
+    console.log('✅ IPFS uploads will be encrypted.');
+    console.log('   The key is sent only to the receiver, sealed with your shared secret or E2E session.');
+    console.log('   Peers without either receive the file as OCFT chunks instead.');
+  });
+
+program
+  .command('ipfs-encrypt-disable')
+  .description('Upload files to IPFS unencrypted (world-readable)')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.ipfsEncrypt = false;
+    saveConfig(config);
+    console.log('⚠️  IPFS uploads will not be encrypted: anyone with the CID can read them.');
+  });
+
+program
+  .command('ipfs-auto-unpin-enable')
+  .description('Unpin IPFS uploads once the receiver confirms the download')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.ipfsAutoUnpin = true;
+    saveConfig(config);
+    console.log('✅ IPFS auto-unpin enabled.');
+    console.log('   Uploads are unpinned as soon as the receiver has verified the file.');
+  });
+
+program
+  .command('ipfs-auto-unpin-disable')
+  .description('Keep IPFS uploads pinned after delivery')
+  .action(() => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.ipfsAutoUnpin = false;
+    saveConfig(config);
+    console.log('✅ IPFS auto-unpin disabled.');
+  });
+
 program
   .command('set-ipfs-provider <provider>')
-  .description('Set IPFS provider (pinata, filebase, kubo)')
+  .description('Set IPFS provider (see: ocft ipfs-providers)')
   .action((provider) => {
     const config = loadConfig();
     if (!config) {
@@ -532,13 +1153,13 @@ program
       return;
     }
     
-    const validProviders = ['pinata', 'filebase', 'kubo'];
+    const validProviders = listIPFSProviders().map(p => p.name);
     if (!validProviders.includes(provider.toLowerCase())) {
       console.log(`❌ Invalid provider. Choose: ${validProviders.join(', ')}`);
       return;
     }
     
-    config.ipfsProvider = provider.toLowerCase() as 'pinata' | 'filebase' | 'kubo';
+    config.ipfsProvider = provider.toLowerCase();
     saveConfig(config);
     console.log(`✅ IPFS provider set to: ${provider}`);
     
@@ -547,12 +1168,85 @@ program
     } else {
       console.log('   Set API key with: ocft set-ipfs-key <key>');
     }
+    if (provider === 's3') {
+      console.log('   Set bucket and endpoint with: ocft set-ipfs-bucket <bucket> -e <url>');
+    }
+  });
+
+program
+  .command('ipfs-providers')
+  .description('List registered IPFS providers (built in and plugins)')
+  .action(() => {
+    const config = loadConfig();
+    const current = config?.ipfsProvider || 'pinata';
+    
+    console.log('');
+    console.log('📦 IPFS Providers:');
+    console.log('');
+    for (const provider of listIPFSProviders()) {
+      const marker = provider.name === current ? '→' : ' ';
+      console.log(`  ${marker} ${provider.name.padEnd(12)} ${provider.description || ''}`);
+    }
+    if (config?.ipfsPlugins?.length) {
+      console.log('');
+      console.log(`Plugins: ${config.ipfsPlugins.join(', ')}`);
+    }
+    console.log('');
+  });
+
+program
+  .command('ipfs-plugin-add <module>')
+  .description('Load IPFS providers from a module (package name or path)')
+  .action(async (module) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    // Store absolute paths so the plugin loads from any working directory
+    const specifier = module.startsWith('.') ? resolve(module) : module;
+    let loaded;
+    try {
+      loaded = await loadIPFSPlugins([specifier]);
+    } catch (err) {
+      console.log(`❌ Cannot load ${module}: ${(err as Error).message}`);
+      process.exitCode = 1;
+      return;
+    }
+    
+    config.ipfsPlugins = [...(config.ipfsPlugins || []).filter(p => p !== specifier), specifier];
+    saveConfig(config);
+    console.log(`✅ Added IPFS plugin: ${specifier}`);
+    console.log(`   Providers: ${loaded.map(p => p.name).join(', ')}`);
+  });
+
+program
+  .command('ipfs-plugin-remove <module>')
+  .description('Stop loading an IPFS provider plugin')
+  .action((module) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    const specifier = module.startsWith('.') ? resolve(module) : module;
+    const plugins = config.ipfsPlugins || [];
+    if (!plugins.includes(specifier)) {
+      console.log(`❌ Plugin not found: ${module}`);
+      return;
+    }
+    
+    config.ipfsPlugins = plugins.filter(p => p !== specifier);
+    saveConfig(config);
+    console.log(`✅ Removed IPFS plugin: ${specifier}`);
   });
 
 program
   .command('set-ipfs-key <key>')
-  .description('Set IPFS API key (Pinata JWT or Filebase access key)')
-  .option('-s, --secret <secret>', 'API secret (Filebase only)')
+  .description('Set IPFS API key (Pinata JWT, S3 access key or web3.storage token)')
+  .option('-s, --secret <secret>', 'API secret (S3 providers only)')
   .action((key, options) => {
     const config = loadConfig();
     if (!config) {
@@ -569,6 +1263,36 @@ program
     console.log('✅ IPFS API key set. IPFS fallback enabled.');
   });
 
+program
+  .command('set-ipfs-bucket <bucket>')
+  .description('Set S3 bucket for filebase/s3 (and optionally region, endpoint and CID header)')
+  .option('-r, --region <region>', 'Bucket region (default: us-east-1)')
+  .option('-e, --endpoint <url>', 'S3 endpoint (Filebase default: https://s3.filebase.com)')
+  .option('-c, --cid-header <header>', 'Response header holding the CID (default: x-amz-meta-cid)')
+  .action((bucket, options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.ipfsBucket = bucket;
+    if (options.region) {
+      config.ipfsRegion = options.region;
+    }
+    if (options.endpoint) {
+      config.ipfsEndpoint = options.endpoint.replace(/\/+$/, '');
+    }
+    if (options.cidHeader) {
+      config.ipfsCidHeader = options.cidHeader.toLowerCase();
+    }
+    saveConfig(config);
+    console.log(`✅ S3 bucket set to: ${bucket} (${config.ipfsRegion || 'us-east-1'})`);
+    if (config.ipfsProvider !== 'filebase' && config.ipfsProvider !== 's3') {
+      console.log('   Use it with: ocft set-ipfs-provider filebase (or s3 for other S3-compatible stores)');
+    }
+  });
+
 program
   .command('set-kubo-url <url>')
   .description('Set Kubo node API URL (default: http://localhost:5001)')
@@ -587,6 +1311,24 @@ program
     console.log('   IPFS provider set to: kubo');
   });
 
+program
+  .command('set-ipfs-api-url <url>')
+  .description('Set web3.storage-style API URL (default: https://api.web3.storage)')
+  .action((url) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.ipfsApiUrl = url.replace(/\/+$/, '');
+    config.ipfsProvider = 'w3s';
+    saveConfig(config);
+    console.log(`✅ web3.storage API URL set to: ${config.ipfsApiUrl}`);
+    console.log('   IPFS provider set to: w3s');
+    console.log('   Set API token with: ocft set-ipfs-key <token>');
+  });
+
 program
   .command('set-ipfs-threshold <size>')
   .description('Set size threshold for IPFS fallback (e.g., 50MB, 100MB)')
@@ -642,6 +1384,83 @@ program
     console.log(`✅ IPFS gateway set to: ${url}`);
   });
 
+program
+  .command('set-ipfs-gateways [urls...]')
+  .description('Set fallback gateways for IPFS downloads (no URLs = defaults)')
+  .action((urls: string[]) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    config.ipfsGateways = urls.length > 0 ? urls.map(url => url.replace(/\/+$/, '')) : undefined;
+    saveConfig(config);
+    if (config.ipfsGateways) {
+      console.log(`✅ IPFS fallback gateways: ${config.ipfsGateways.join(', ')}`);
+    } else {
+      console.log('✅ IPFS fallback gateways reset to defaults');
+    }
+  });
+
+// ============ FETCH ============
+program
+  .command('fetch <link>')
+  .description('Download a file from IPFS by CID or gateway URL')
+  .option('-o, --output <path>', 'Output file (default: download directory)')
+  .option('--sha256 <hash>', 'Expected SHA-256 of the file')
+  .option('--size <bytes>', 'Expected size in bytes')
+  .option('-g, --gateway <url...>', 'Gateways to try instead of the configured fallbacks')
+  .action(async (link, options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    const parsed = parseIPFSLink(link);
+    if (!parsed) {
+      console.log(`❌ Not a CID or IPFS link: ${link}`);
+      process.exitCode = 1;
+      return;
+    }
+    
+    let outputPath = options.output;
+    if (!outputPath) {
+      if (!existsSync(config.downloadDir)) {
+        mkdirSync(config.downloadDir, { recursive: true });
+      }
+      const target = resolveDownloadPath(config.downloadDir, parsed.filename || parsed.cid, config.onCollision);
+      if (!target) {
+        console.log(`❌ File already exists: ${parsed.filename || parsed.cid}`);
+        process.exitCode = 1;
+        return;
+      }
+      outputPath = target.path;
+    }
+    
+    const ipfsConfig = toIPFSConfig(config);
+    if (options.gateway) {
+      ipfsConfig.gateways = options.gateway.map((url: string) => url.replace(/\/+$/, ''));
+    }
+    
+    console.log(`📥 Fetching ${parsed.cid}...`);
+    try {
+      const result = await downloadFromIPFS(parsed.cid, ipfsConfig, {
+        outputPath,
+        size: options.size !== undefined ? parseInt(options.size, 10) : undefined,
+        hash: options.sha256?.toLowerCase(),
+        urls: parsed.url ? [parsed.url] : []
+      });
+      console.log(`✅ Saved: ${result.path} (${result.size} bytes)`);
+      console.log(`   SHA-256: ${result.hash}${options.sha256 ? ' (verified)' : ''}`);
+      console.log(`   Source:  ${result.source}`);
+    } catch (err) {
+      console.log(`❌ ${(err as Error).message}`);
+      process.exitCode = 1;
+    }
+  });
+
 // ============ EXTEND-PEER ============
 program
   .command('extend-peer <nodeId> <hours>')
@@ -674,4 +1493,372 @@ program
     console.log(`   New expiry: ${peer.expiresAt}`);
   });
 
-program.parse();
+// ============ SEND ============
+program
+  .command('send <peer> <file>')
+  .description('Send a file to a peer (OCFT messages on stdout, replies on stdin)')
+  .option('-r, --recursive', 'Send a directory and everything in it')
+  .option('-x, --exec <command>', 'Bridge command that relays OCFT lines to the peer')
+  .option('-c, --connect <url>', 'Connect directly to the peer over WebSocket (ws://host:port)')
+  .option('--relay <url>', 'Relay server for chunk data (default: configured relay)')
+  .option('--no-relay', 'Send chunk data over the chat channel only')
+  .action(async (peer, file, options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.error('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    if (!existsSync(file)) {
+      console.error(`❌ File not found: ${file}`);
+      process.exitCode = 1;
+      return;
+    }
+    
+    const directory = statSync(file).isDirectory();
+    if (directory && !options.recursive) {
+      console.error(`❌ ${file} is a directory (use -r to send it)`);
+      process.exitCode = 1;
+      return;
+    }
+    
+    const peerId = resolvePeerId(config, peer);
+    const transport = await openTransport(config, options);
+    const manager = new TransferManager(toManagerConfig(config), transport);
+    reportProgress(manager);
+    
+    const transferId = directory ? await manager.sendDirectory(peerId, file) : await manager.sendFile(peerId, file);
+    console.error(`📤 Offer sent to ${peerId} (${transferId})`);
+    
+    const result = await waitForTransfer(manager, transferId);
+    await manager.close();
+    await transport.close();
+    if (result.state !== 'completed') {
+      process.exitCode = 1;
+    }
+  });
+
+// ============ RECEIVE ============
+program
+  .command('receive')
+  .description('Receive files from peers (OCFT messages on stdin, replies on stdout)')
+  .option('-x, --exec <command>', 'Bridge command that relays OCFT lines from peers')
+  .option('-l, --listen <port>', 'Accept direct WebSocket connections from peers on this port')
+  .option('--relay <url>', 'Relay server for chunk data (default: configured relay)')
+  .option('--no-relay', 'Receive chunk data over the chat channel only')
+  .option('-a, --accept-all', 'Accept offers from any peer (default: trusted peers only)')
+  .action(async (options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.error('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    if (!existsSync(config.downloadDir)) {
+      mkdirSync(config.downloadDir, { recursive: true });
+    }
+    
+    // The manager takes binary chunk frames itself; text messages are fed to it below
+    // so untrusted offers can be settled after each one
+    const transport = await openTransport(config, options);
+    const manager = new TransferManager(toManagerConfig(config), transport);
+    reportProgress(manager);
+    
+    manager.on('offer-received', (t: TransferInfo) => {
+      console.error(`📥 Offer from ${t.peerId}: ${t.filename} (${t.size} bytes)`);
+    });
+    manager.on('transfer-accepted', (t: TransferInfo) => {
+      if (t.collision === 'renamed') {
+        console.error(`⚠️  ${t.filename} exists, saving as ${t.localPath}`);
+      } else if (t.collision === 'overwritten') {
+        console.error(`⚠️  Overwriting existing ${t.localPath}`);
+      }
+    });
+    
+    transport.onMessage(async (from, message) => {
+      await manager.handleMessage(from, message);
+      
+      // Offers that were not auto-accepted cannot be approved interactively here
+      for (const t of manager.listTransfers()) {
+        if (t.direction !== 'receive' || t.state !== 'pending') continue;
+        if (options.acceptAll) {
+          await manager.acceptTransfer(t.id);
+        } else {
+          await manager.rejectTransfer(t.id, 'Peer not trusted');
+        }
+      }
+    });
+    
+    const via = options.listen ? ` (listening on port ${options.listen})` : '';
+    console.error(`👂 Receiving as ${config.nodeId} → ${config.downloadDir}${via}`);
+  });
+
+// ============ RESUME ============
+program
+  .command('resume <transferId>')
+  .description('Resume an interrupted transfer (also after a restart)')
+  .option('-x, --exec <command>', 'Bridge command that relays OCFT lines to the peer')
+  .option('-c, --connect <url>', 'Connect directly to the peer over WebSocket (ws://host:port)')
+  .option('--relay <url>', 'Relay server for chunk data (default: configured relay)')
+  .option('--no-relay', 'Send chunk data over the chat channel only')
+  .action(async (transferId, options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.error('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    const transport = await openTransport(config, options);
+    const manager = new TransferManager(toManagerConfig(config), transport);
+    reportProgress(manager);
+    
+    const done = waitForTransfer(manager, transferId);
+    try {
+      await manager.resumeTransfer(transferId);
+    } catch (err) {
+      console.error(`❌ Cannot resume ${transferId}: ${(err as Error).message}`);
+      await manager.close();
+      await transport.close();
+      process.exitCode = 1;
+      return;
+    }
+    console.error(`🔄 Resuming ${transferId}`);
+    
+    const result = await done;
+    await manager.close();
+    await transport.close();
+    if (result.state !== 'completed') {
+      process.exitCode = 1;
+    }
+  });
+
+// ============ RELAY ============
+program
+  .command('relay')
+  .description('Run a relay server that forwards chunk data between peers that cannot connect directly')
+  .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_RELAY_PORT))
+  .option('--host <host>', 'Interface to listen on (default: all)')
+  .option('-n, --nodes <file>', 'Registered nodes and their tokens (default: ~/.ocft/relay-nodes.json)')
+  .option('--quota <size>', 'Bytes each node may send per day (default: 1GB)')
+  .option('--max-queued <size>', 'Bytes held for each offline node (default: 64MB)')
+  .option('--max-queued-total <size>', 'Bytes held for all offline nodes (default: 1GB)')
+  .option('--ttl <duration>', 'How long held data waits for its recipient (default: 10m)')
+  .action(async (options) => {
+    const quota = options.quota !== undefined ? parseSize(options.quota) : undefined;
+    const maxQueued = options.maxQueued !== undefined ? parseSize(options.maxQueued) : undefined;
+    const maxQueuedTotal = options.maxQueuedTotal !== undefined ? parseSize(options.maxQueuedTotal) : undefined;
+    const queueTTL = options.ttl !== undefined ? parseDuration(options.ttl) : undefined;
+    if (quota === null || maxQueued === null || maxQueuedTotal === null) {
+      console.error('❌ Invalid size format. Use: 64MB, 1GB, 500KB, etc.');
+      process.exitCode = 1;
+      return;
+    }
+    if (queueTTL === null) {
+      console.error('❌ Invalid duration. Use e.g. 10m, 1h or 1d');
+      process.exitCode = 1;
+      return;
+    }
+    
+    let nodes: Record<string, string>;
+    try {
+      nodes = loadRelayNodes(options.nodes);
+    } catch (err) {
+      console.error(`❌ Cannot read relay nodes: ${(err as Error).message}`);
+      process.exitCode = 1;
+      return;
+    }
+    if (Object.keys(nodes).length === 0) {
+      console.error('❌ No nodes registered. Add them with: ocft relay-add-node <nodeId>');
+      process.exitCode = 1;
+      return;
+    }
+    
+    const relay = await RelayServer.listen({
+      port: parseInt(options.port, 10),
+      host: options.host,
+      nodes,
+      quota,
+      maxQueued,
+      maxQueuedTotal,
+      queueTTL
+    });
+    
+    relay.on('node-connected', (nodeId: string) => console.log(`🔌 ${nodeId} connected`));
+    relay.on('node-disconnected', (nodeId: string) => console.log(`👋 ${nodeId} disconnected`));
+    relay.on('frame-dropped', ({ from, to, size, reason }: DroppedFrame) => {
+      console.log(`⚠️  Dropped ${size} bytes from ${from} to ${to}: ${reason}`);
+    });
+    
+    console.log(`🛰️  OCFT relay listening on port ${relay.port} (${Object.keys(nodes).length} nodes registered)`);
+    process.once('SIGINT', async () => {
+      await relay.close();
+      process.exit(0);
+    });
+  });
+
+program
+  .command('relay-add-node <nodeId>')
+  .description('Register a node with the relay run on this machine and print its token')
+  .action((nodeId) => {
+    const nodes = loadRelayNodes();
+    nodes[nodeId] = randomBytes(24).toString('base64url');
+    saveRelayNodes(nodes);
+    console.log(`✅ Registered ${nodeId}. Restart the relay to apply.`);
+    console.log(`   On that node: ocft set-relay <url> --token ${nodes[nodeId]}`);
+  });
+
+program
+  .command('relay-remove-node <nodeId>')
+  .description('Unregister a node from the relay run on this machine')
+  .action((nodeId) => {
+    const nodes = loadRelayNodes();
+    if (!Object.hasOwn(nodes, nodeId)) {
+      console.log(`❌ Node not registered: ${nodeId}`);
+      return;
+    }
+    delete nodes[nodeId];
+    saveRelayNodes(nodes);
+    console.log(`✅ Removed ${nodeId}. Restart the relay to apply.`);
+  });
+
+// ============ PINS ============
+program
+  .command('ipfs-list')
+  .description('List files uploaded to IPFS')
+  .option('-s, --status', 'Ask the provider whether each file is still pinned')
+  .action(async (options) => {
+    const config = loadConfig();
+    const records = await new FilePinLedger().list();
+    
+    if (records.length === 0) {
+      console.log('No IPFS uploads recorded.');
+      return;
+    }
+    
+    const formatSize = (b: number): string => {
+      if (b >= 1024 * 1024 * 1024) return `${(b / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+      if (b >= 1024 * 1024) return `${(b / (1024 * 1024)).toFixed(1)} MB`;
+      if (b >= 1024) return `${(b / 1024).toFixed(1)} KB`;
+      return `${b} bytes`;
+    };
+    const ipfsConfig = config ? toIPFSConfig(config) : {};
+    
+    console.log('');
+    console.log('📌 IPFS Uploads:');
+    console.log('');
+    for (const record of records.sort((a, b) => b.uploadedAt - a.uploadedAt)) {
+      const delivered = record.confirmedAt ? '✅ delivered' : '⏳ not confirmed';
+      console.log(`${record.cid}  (${record.provider})`);
+      console.log(`   ${record.filename} (${formatSize(record.size)})${record.peerId ? ` → ${record.peerId}` : ''}, ${delivered}`);
+      console.log(`   Uploaded: ${new Date(record.uploadedAt).toISOString()}`);
+      if (options.status) {
+        try {
+          const status = await getIPFSPinStatus(record, { ...ipfsConfig, provider: record.provider });
+          console.log(`   Status:   ${status}`);
+        } catch (err) {
+          console.log(`   Status:   unknown (${(err as Error).message})`);
+        }
+      }
+      console.log('');
+    }
+  });
+
+program
+  .command('ipfs-unpin <cid>')
+  .description('Unpin an uploaded file and remove it from the list')
+  .action(async (cid) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    try {
+      const removed = await releasePin(new FilePinLedger(), cid, toIPFSConfig(config));
+      const name = removed.length ? ` (${removed.map(r => r.filename).join(', ')})` : '';
+      console.log(`✅ Unpinned: ${cid}${name}`);
+    } catch (err) {
+      console.log(`❌ Unpin failed: ${(err as Error).message}`);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('ipfs-gc')
+  .description('Unpin uploads older than a given age')
+  .requiredOption('--older-than <age>', 'Age such as 7d, 12h, 30m or 2w')
+  .option('-n, --dry-run', 'Only list what would be unpinned')
+  .action(async (options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.log('❌ Not initialized. Run: ocft init');
+      return;
+    }
+    
+    const age = parseDuration(options.olderThan);
+    if (age === null) {
+      console.log('❌ Invalid age. Use: 7d, 12h, 30m, 2w');
+      return;
+    }
+    
+    // A CID is only old once its newest upload is
+    const ledger = new FilePinLedger();
+    const newest = new Map<string, number>();
+    for (const record of await ledger.list()) {
+      newest.set(record.cid, Math.max(newest.get(record.cid) || 0, record.uploadedAt));
+    }
+    const cutoff = Date.now() - age;
+    const expired = [...newest].filter(([, uploadedAt]) => uploadedAt < cutoff).map(([cid]) => cid);
+    
+    if (expired.length === 0) {
+      console.log(`No uploads older than ${options.olderThan}.`);
+      return;
+    }
+    
+    let failed = 0;
+    for (const cid of expired) {
+      if (options.dryRun) {
+        console.log(`Would unpin: ${cid}`);
+        continue;
+      }
+      try {
+        await releasePin(ledger, cid, toIPFSConfig(config));
+        console.log(`✅ Unpinned: ${cid}`);
+      } catch (err) {
+        console.log(`❌ ${cid}: ${(err as Error).message}`);
+        failed++;
+      }
+    }
+    if (failed) process.exitCode = 1;
+  });
+
+// ============ TRANSFERS ============
+program
+  .command('transfers')
+  .description('List unfinished transfers that can be resumed')
+  .action(async () => {
+    const transfers = await new FileTransferStore().load();
+    
+    if (transfers.length === 0) {
+      console.log('No unfinished transfers.');
+      return;
+    }
+    
+    console.log('');
+    console.log('🔄 Unfinished Transfers:');
+    console.log('');
+    transfers
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .forEach((t) => {
+        const arrow = t.direction === 'send' ? '📤 →' : '📥 ←';
+        console.log(`${t.id}  ${arrow} ${t.peerId}`);
+        console.log(`   ${t.filename} (${t.receivedChunks.length}/${t.totalChunks} chunks, ${t.state})`);
+        console.log(`   Updated: ${new Date(t.updatedAt).toISOString()}`);
+        console.log('');
+      });
+  });
+
+program.parseAsync().catch((err) => {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+});
@@ -4,6 +4,8 @@
  */
 
 import { TransferManager } from './transfer.js';
+import { TransferInfo } from './protocol.js';
+import { LoopbackNetwork } from './transport.js';
 import { mkdir, writeFile, readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 
@@ -28,11 +30,8 @@ async function demo() {
   const botASecret = 'secret-a-12345';
   const botBSecret = 'secret-b-67890';
   
-  // Message queue (simulates network)
-  const messageQueues: Map<string, string[]> = new Map([
-    ['bot-a', []],
-    ['bot-b', []]
-  ]);
+  // In-memory network (simulates the chat channel)
+  const network = new LoopbackNetwork();
   
   // Create Bot A (sender) - knows Bot B's secret
   const botA = new TransferManager(
@@ -41,12 +40,11 @@ async function demo() {
       secret: botASecret,
       downloadDir: botADir,
       chunkSize: 1024, // Small chunks for demo
-      trustedPeers: [{ id: 'bot-b', secret: botBSecret }]
+      trustedPeers: [{ id: 'bot-b', secret: botBSecret }],
+      store: false, // Keep demo transfers out of ~/.ocft/transfers
+      pins: false
     },
-    async (to, message) => {
-      console.log(`📤 [bot-a → ${to}] Message sent (${message.length} chars)`);
-      messageQueues.get(to)?.push(message);
-    }
+    network.connect('bot-a')
   );
   
   // Create Bot B (receiver) - has its own secret
@@ -55,12 +53,11 @@ async function demo() {
       botId: 'bot-b',
       secret: botBSecret, // Bot A knows this, so auto-accept!
       downloadDir: botBDir,
-      chunkSize: 1024
+      chunkSize: 1024,
+      store: false,
+      pins: false
     },
-    async (to, message) => {
-      console.log(`📤 [bot-b → ${to}] Message sent (${message.length} chars)`);
-      messageQueues.get(to)?.push(message);
-    }
+    network.connect('bot-b')
   );
   
   // Event handlers
@@ -77,54 +74,24 @@ async function demo() {
   botB.on('transfer-completed', (t) => console.log(`\n🅱️ ✅ Transfer completed! Saved to: ${t.localPath}`));
   botB.on('transfer-failed', (t) => console.log(`\n🅱️ ❌ Transfer failed: ${t.error}`));
   
-  // Start transfer
+  // Start transfer and wait until both sides are done
   console.log('🚀 Starting transfer...\n');
+  const finished = (bot: TransferManager) => new Promise<TransferInfo>((resolve) => {
+    bot.once('transfer-completed', resolve);
+    bot.once('transfer-failed', resolve);
+    bot.once('transfer-rejected', resolve);
+  });
+  const done = Promise.all([finished(botA), finished(botB)]);
   const transferId = await botA.sendFile('bot-b', testFile);
-  
-  // Process message queue (simulate network)
-  let iterations = 0;
-  const maxIterations = 100;
-  let doneCount = 0;
-  
-  while (iterations < maxIterations) {
-    let processed = false;
-    
-    // Process Bot A's queue
-    const msgA = messageQueues.get('bot-a')?.shift();
-    if (msgA) {
-      await botA.handleMessage('bot-b', msgA);
-      processed = true;
-    }
-    
-    // Process Bot B's queue
-    const msgB = messageQueues.get('bot-b')?.shift();
-    if (msgB) {
-      await botB.handleMessage('bot-a', msgB);
-      processed = true;
-    }
-    
-    // Check if done
-    const transferA = botA.getTransfer(transferId);
-    const transferB = botB.listTransfers().find(t => t.id === transferId);
-    
-    if (transferB?.state === 'completed' || transferB?.state === 'failed') {
-      doneCount++;
-      if (doneCount >= 3) break; // Wait a bit after completion
-    }
-    
-    if (!processed && messageQueues.get('bot-a')?.length === 0 && messageQueues.get('bot-b')?.length === 0) {
-      if (doneCount > 0) break;
-    }
-    
-    // Small delay
-    await new Promise(r => setTimeout(r, 10));
-    iterations++;
-  }
+  await done;
+  await botA.close();
+  await botB.close();
   
   // Verify
   console.log('\n📊 Verification:');
-  const receivedFile = `${botBDir}/test.txt`;
-  if (existsSync(receivedFile)) {
+  // Earlier demo runs leave test.txt behind, so the new copy may have been renamed
+  const receivedFile = botB.getTransfer(transferId)?.localPath;
+  if (receivedFile && existsSync(receivedFile)) {
     const receivedContent = await readFile(receivedFile, 'utf-8');
     const match = receivedContent === testContent;
     console.log(`  Original size: ${testContent.length}`);
@@ -0,0 +1,86 @@
+/**
+ * OCFT - Fragment Reassembly
+ * Collects the parts of messages split for channels with short messages
+ */
+
+import { Fragment, OCFT_PREFIX } from './protocol.js';
+
+export const DEFAULT_FRAGMENT_TIMEOUT = 60 * 1000;        // Incomplete messages are dropped after a minute idle
+export const MAX_BUFFERED_FRAGMENTS = 64 * 1024 * 1024;  // Characters held for incomplete messages
+
+interface PendingMessage {
+  parts: (string | undefined)[];
+  received: number;
+  chars: number;
+  updatedAt: number;
+}
+
+// Reassembles fragments in any order; duplicates and parts of completed messages are ignored
+export class FragmentBuffer {
+  private pending: Map<string, PendingMessage> = new Map(); // "from:msgId" -> parts so far, oldest first
+  private completed: Map<string, number> = new Map();       // "from:msgId" -> completion time
+  private buffered = 0;
+  private timeout: number;
+  private maxChars: number;
+  
+  constructor(timeout = DEFAULT_FRAGMENT_TIMEOUT, maxChars = MAX_BUFFERED_FRAGMENTS) {
+    this.timeout = timeout;
+    this.maxChars = maxChars;
+  }
+  
+  // Add a fragment; returns the whole message (🔗OCFT:...) once its last part is in
+  add(from: string, fragment: Fragment): string | null {
+    this.prune();
+    const key = `${from}:${fragment.msgId}`;
+    if (this.completed.has(key)) return null;
+    
+    let message = this.pending.get(key);
+    if (!message) {
+      message = { parts: new Array(fragment.total), received: 0, chars: 0, updatedAt: 0 };
+      this.pending.set(key, message);
+    }
+    
+    // Parts disagreeing on the count belong to no message we can build
+    if (fragment.total !== message.parts.length || message.parts[fragment.part - 1] !== undefined) return null;
+    message.parts[fragment.part - 1] = fragment.data;
+    message.received++;
+    message.chars += fragment.data.length;
+    message.updatedAt = Date.now();
+    this.buffered += fragment.data.length;
+    
+    if (message.received < message.parts.length) {
+      this.evict();
+      return null;
+    }
+    
+    this.drop(key);
+    this.completed.set(key, Date.now());
+    return `${OCFT_PREFIX}${message.parts.join('')}`;
+  }
+  
+  // Incomplete messages idle for longer than the timeout will not complete
+  private prune(): void {
+    const cutoff = Date.now() - this.timeout;
+    for (const [key, message] of this.pending) {
+      if (message.updatedAt < cutoff) this.drop(key);
+    }
+    for (const [key, completedAt] of this.completed) {
+      if (completedAt < cutoff) this.completed.delete(key);
+    }
+  }
+  
+  // Over the memory limit: give up on the oldest messages first
+  private evict(): void {
+    for (const key of this.pending.keys()) {
+      if (this.buffered <= this.maxChars) break;
+      this.drop(key);
+    }
+  }
+  
+  private drop(key: string): void {
+    const message = this.pending.get(key);
+    if (!message) return;
+    this.buffered -= message.chars;
+    this.pending.delete(key);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * OCFT - OpenClaw File Transfer Protocol
+ * Public API
+ */
+
+export { TransferManager } from './transfer.js';
+export type { TransferManagerConfig, TrustedPeer, SendMessageFn, StallPhase, TransferStall } from './transfer.js';
+
+export * from './protocol.js';
+export { LoopbackNetwork, LoopbackTransport, LineTransport, WebSocketTransport, RelayTransport } from './transport.js';
+export type {
+  Transport, MessageHandler, BinaryHandler, LoopbackOptions, LineTransportOptions, WebSocketTransportOptions,
+  RelayTransportOptions, RelayNotice
+} from './transport.js';
+export { RelayServer, DEFAULT_RELAY_PORT } from './relay.js';
+export type { RelayOptions, DroppedFrame } from './relay.js';
+export { FileTransferStore, DEFAULT_TRANSFERS_DIR } from './store.js';
+export type { TransferStore, StoredTransfer } from './store.js';
+export { generateKeyPair, isValidPublicKey } from './crypto.js';
+export type { KeyPair } from './crypto.js';
+export { FileChunkCache, DEFAULT_CHUNK_CACHE_DIR, DEFAULT_CHUNK_CACHE_SIZE } from './cache.js';
+export type { ChunkCache } from './cache.js';
+export { getContentChunks, MAX_CONTENT_CHUNKS } from './cdc.js';
+export { FragmentBuffer, DEFAULT_FRAGMENT_TIMEOUT, MAX_BUFFERED_FRAGMENTS } from './fragments.js';
+export { FilePinLedger, releasePin, DEFAULT_PINS_FILE } from './pins.js';
+export type { PinLedger, PinRecord } from './pins.js';
+export { sanitizeFilename, sanitizeRelativePath } from './paths.js';
+export type { CollisionPolicy } from './paths.js';
+export { getDirectoryInfo, sanitizeManifest, BUNDLE_SUFFIX, MAX_MANIFEST_ENTRIES } from './manifest.js';
+export type { DirectoryInfo } from './manifest.js';
+
+export {
+  registerIPFSProvider, getIPFSProvider, listIPFSProviders, loadIPFSPlugins,
+  uploadToIPFS, downloadFromIPFS, downloadFromGateways, pinToIPFS, unpinFromIPFS, getIPFSPinStatus,
+  isValidCID, parseIPFSLink
+} from './ipfs.js';
+export type {
+  IPFSProvider, IPFSConfig, IPFSUploadResult, IPFSDownloadOptions, IPFSDownloadResult,
+  IPFSPin, IPFSPinStatus, IPFSProviderPlugin
+} from './ipfs.js';
@@ -1,21 +1,41 @@
 /**
  * OCFT - IPFS Integration
  * Fallback to IPFS for large files or when peer doesn't support OCFT
- * Supports: Pinata, Filebase, Kubo (local node)
+ * Built-in providers: Pinata, Filebase, any S3-compatible store, web3.storage-style APIs and
+ * Kubo (local node); more can be registered as plugins
  */
 
-import { createReadStream, statSync, readFileSync } from 'fs';
-import { basename } from 'path';
+import { createReadStream, createWriteStream, statSync } from 'fs';
+import { rename, rm } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { createHash, randomBytes } from 'crypto';
+import { PassThrough, Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream } from 'stream/web';
+import { PART_SUFFIX } from './chunker.js';
+import { S3Bucket, uploadObject, headObject, deleteObject } from './s3.js';
 
-export type IPFSProvider = 'pinata' | 'filebase' | 'kubo';
+// Name of a registered provider (built in: pinata, filebase, s3, w3s, kubo)
+export type IPFSProvider = string;
 
 export interface IPFSConfig {
   provider?: IPFSProvider;    // IPFS provider (default: pinata)
-  apiKey?: string;            // API key (Pinata JWT or Filebase access key)
-  apiSecret?: string;         // API secret (Filebase only)
+  apiKey?: string;            // API key (Pinata JWT, S3 access key or web3.storage token)
+  apiSecret?: string;         // API secret (S3 providers only)
+  apiUrl?: string;            // web3.storage-style API URL (default: https://api.web3.storage)
   kuboUrl?: string;           // Kubo API URL (default: http://localhost:5001)
+  bucket?: string;            // S3 bucket (default: ocft-uploads)
+  region?: string;            // S3 region (default: us-east-1)
+  endpoint?: string;          // S3 endpoint (Filebase default: https://s3.filebase.com; required for s3)
+  cidHeader?: string;         // S3: response header holding the CID (default: x-amz-meta-cid)
+  multipartThreshold?: number; // S3: multipart upload above this size (bytes, default: 5GB)
+  partSize?: number;          // S3: multipart part size (bytes, default: 64MB)
   publicGateway?: string;     // Public gateway for downloads
+  gateways?: string[];        // Fallback gateways for downloads (default: ipfs.io, dweb.link)
+  gatewayTimeout?: number;    // Give up on a download source after this long without data (ms, default: 60s)
   threshold?: number;         // Size threshold to use IPFS (bytes, default: 50MB)
+  encrypt?: boolean;          // Encrypt files with a random key before upload (key goes only to the receiver)
 }
 
 export interface IPFSUploadResult {
@@ -24,14 +44,68 @@ export interface IPFSUploadResult {
   size: number;
   filename: string;
   provider: IPFSProvider;
+  key?: string;               // Object stores: key the file was stored under
+  encrypted?: boolean;        // Content is encrypted: useless without the key sent to the receiver
+}
+
+export interface IPFSDownloadOptions {
+  outputPath: string;         // Final file path (written as <path>.ocft-part until verified)
+  size?: number;              // Expected size in bytes
+  hash?: string;              // Expected SHA-256 (hex)
+  urls?: string[];            // Extra sources tried after the configured gateway (e.g. the sender's link)
+}
+
+export interface IPFSDownloadResult {
+  cid: string;
+  path: string;
+  size: number;
+  hash: string;               // SHA-256 of the downloaded file
+  source: string;             // URL the file was fetched from
+}
+
+export type IPFSPinStatus = 'pinned' | 'pinning' | 'unpinned';
+
+// Pinned content as recorded at upload time (object stores address it by key)
+export interface IPFSPin {
+  cid: string;
+  filename?: string;
+  key?: string;               // Object stores: key of the upload (default: the filename)
+}
+
+/**
+ * IPFS provider plugin. Register with registerIPFSProvider(), or list the module
+ * (default export: one provider or an array) in the ipfsPlugins config.
+ */
+export interface IPFSProviderPlugin {
+  name: IPFSProvider;
+  description?: string;
+  upload(filePath: string, config: IPFSConfig): Promise<IPFSUploadResult>;
+  download(cid: string, config: IPFSConfig, options: IPFSDownloadOptions): Promise<IPFSDownloadResult>;
+  pin(pin: IPFSPin, config: IPFSConfig): Promise<void>;
+  unpin(pin: IPFSPin, config: IPFSConfig): Promise<void>;
+  status(pin: IPFSPin, config: IPFSConfig): Promise<IPFSPinStatus>;
+}
+
+// Where an IPFS download can come from
+export interface IPFSSource {
+  url: string;
+  method?: 'GET' | 'POST';
 }
 
 const DEFAULT_THRESHOLD = 50 * 1024 * 1024;  // 50MB
-const DEFAULT_PUBLIC_GATEWAY = 'https://ipfs.io/ipfs';
+const DEFAULT_PROVIDER = 'pinata';
+const DEFAULT_KUBO_URL = 'http://localhost:5001';
+const PINATA_API = 'https://api.pinata.cloud';
+const DEFAULT_W3S_API = 'https://api.web3.storage';
+const DEFAULT_CID_HEADER = 'x-amz-meta-cid';
+const DEFAULT_FALLBACK_GATEWAYS = ['https://ipfs.io/ipfs', 'https://dweb.link/ipfs'];
+const DEFAULT_GATEWAY_TIMEOUT = 60 * 1000;
 
-const PROVIDER_GATEWAYS: Record<IPFSProvider, string> = {
+const PROVIDER_GATEWAYS: Record<string, string> = {
   pinata: 'https://gateway.pinata.cloud/ipfs',
   filebase: 'https://ipfs.filebase.io/ipfs',
+  s3: 'https://ipfs.io/ipfs',
+  w3s: 'https://w3s.link/ipfs',
   kubo: 'https://ipfs.io/ipfs',
 };
 
@@ -43,6 +117,64 @@ export function shouldUseIPFS(fileSize: number, threshold?: number): boolean {
   return fileSize > limit;
 }
 
+// ============ REGISTRY ============
+
+const providers: Map<IPFSProvider, IPFSProviderPlugin> = new Map();
+
+/**
+ * Register (or replace) a provider
+ */
+export function registerIPFSProvider(provider: IPFSProviderPlugin): void {
+  for (const method of ['upload', 'download', 'pin', 'unpin', 'status'] as const) {
+    if (typeof provider[method] !== 'function') {
+      throw new Error(`IPFS provider ${provider.name || '(unnamed)'} is missing ${method}()`);
+    }
+  }
+  providers.set(provider.name.toLowerCase(), provider);
+}
+
+/**
+ * Look up a registered provider
+ */
+export function getIPFSProvider(name: IPFSProvider = DEFAULT_PROVIDER): IPFSProviderPlugin {
+  const provider = providers.get(name.toLowerCase());
+  if (!provider) {
+    throw new Error(`Unknown IPFS provider: ${name} (registered: ${Array.from(providers.keys()).join(', ')})`);
+  }
+  return provider;
+}
+
+/**
+ * All registered providers
+ */
+export function listIPFSProviders(): IPFSProviderPlugin[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Import plugin modules and register the providers they export (default export or `providers`).
+ * Relative paths resolve against the working directory; anything else is a package name.
+ */
+export async function loadIPFSPlugins(modules: string[]): Promise<IPFSProviderPlugin[]> {
+  const loaded: IPFSProviderPlugin[] = [];
+  for (const specifier of modules) {
+    const isPath = specifier.startsWith('.') || specifier.startsWith('/');
+    const mod = await import(isPath ? pathToFileURL(resolve(specifier)).href : specifier);
+    const exported = mod.default ?? mod.providers;
+    const plugins: IPFSProviderPlugin[] = Array.isArray(exported) ? exported : [exported];
+    if (!exported) {
+      throw new Error(`IPFS plugin ${specifier} exports no provider`);
+    }
+    for (const plugin of plugins) {
+      registerIPFSProvider(plugin);
+      loaded.push(plugin);
+    }
+  }
+  return loaded;
+}
+
+// ============ OPERATIONS ============
+
 /**
  * Upload file to IPFS via configured provider
  */
@@ -50,20 +182,46 @@ export async function uploadToIPFS(
   filePath: string,
   config: IPFSConfig
 ): Promise<IPFSUploadResult> {
-  const provider = config.provider || 'pinata';
-  
-  switch (provider) {
-    case 'pinata':
-      return uploadToPinata(filePath, config);
-    case 'filebase':
-      return uploadToFilebase(filePath, config);
-    case 'kubo':
-      return uploadToKubo(filePath, config);
-    default:
-      throw new Error(`Unknown IPFS provider: ${provider}`);
+  return getIPFSProvider(config.provider).upload(filePath, config);
+}
+
+/**
+ * Download a file from IPFS via the configured provider, verifying size and SHA-256
+ */
+export async function downloadFromIPFS(
+  cid: string,
+  config: IPFSConfig,
+  options: IPFSDownloadOptions
+): Promise<IPFSDownloadResult> {
+  if (!isValidCID(cid)) {
+    throw new Error(`Invalid CID: ${cid}`);
   }
+  return getIPFSProvider(config.provider).download(cid, config, options);
 }
 
+/**
+ * Pin existing content with the configured provider
+ */
+export async function pinToIPFS(pin: IPFSPin, config: IPFSConfig): Promise<void> {
+  return getIPFSProvider(config.provider).pin(pin, config);
+}
+
+/**
+ * Remove a pin so the provider can garbage-collect the content
+ */
+export async function unpinFromIPFS(pin: IPFSPin, config: IPFSConfig): Promise<void> {
+  return getIPFSProvider(config.provider).unpin(pin, config);
+}
+
+/**
+ * Check whether content is still pinned
+ */
+export async function getIPFSPinStatus(pin: IPFSPin, config: IPFSConfig): Promise<IPFSPinStatus> {
+  return getIPFSProvider(config.provider).status(pin, config);
+}
+
+// ============ PINATA ============
+
 /**
  * Upload to Pinata
  */
@@ -75,18 +233,16 @@ async function uploadToPinata(filePath: string, config: IPFSConfig): Promise<IPF
     throw new Error('Pinata API key required. Set with: ocft set-ipfs-key <jwt>');
   }
   
-  const FormData = (await import('form-data')).default;
-  const form = new FormData();
-  form.append('file', createReadStream(filePath), { filename });
-  
-  const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+  const form = await fileForm(filePath, filename, stats.size);
+  const response = await fetch(`${PINATA_API}/pinning/pinFileToIPFS`, {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${config.apiKey}`,
-      ...form.getHeaders(),
+      ...form.headers,
     },
-    body: form as any,
-  });
+    body: form.body,
+    duplex: 'half',
+  } as RequestInit);
   
   if (!response.ok) {
     const error = await response.text();
@@ -106,52 +262,234 @@ async function uploadToPinata(filePath: string, config: IPFSConfig): Promise<IPF
 }
 
 /**
- * Upload to Filebase (S3-compatible)
+ * Pinata REST call with JWT auth
  */
-async function uploadToFilebase(filePath: string, config: IPFSConfig): Promise<IPFSUploadResult> {
-  const stats = statSync(filePath);
-  const filename = basename(filePath);
-  
-  if (!config.apiKey || !config.apiSecret) {
-    throw new Error('Filebase credentials required. Set with: ocft set-ipfs-key <accessKey> --secret <secretKey>');
+async function pinataRequest(config: IPFSConfig, method: string, path: string, body?: unknown): Promise<Response> {
+  if (!config.apiKey) {
+    throw new Error('Pinata API key required. Set with: ocft set-ipfs-key <jwt>');
   }
   
-  // Filebase uses S3-compatible API
-  const bucket = 'ocft-uploads';
-  const endpoint = 'https://s3.filebase.com';
-  
-  const fileContent = readFileSync(filePath);
-  const date = new Date().toUTCString();
-  
-  // Simple S3 PUT request (for basic uploads)
-  const response = await fetch(`${endpoint}/${bucket}/${encodeURIComponent(filename)}`, {
-    method: 'PUT',
+  const response = await fetch(`${PINATA_API}${path}`, {
+    method,
     headers: {
-      'Content-Type': 'application/octet-stream',
-      'x-amz-date': date,
-      'Authorization': `AWS ${config.apiKey}:${config.apiSecret}`,
+      'Authorization': `Bearer ${config.apiKey}`,
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
     },
-    body: fileContent,
+    body: body ? JSON.stringify(body) : undefined,
   });
   
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Filebase upload failed: ${error}`);
+    throw new Error(`Pinata ${method} ${path} failed: ${error}`);
   }
+  return response;
+}
+
+const pinataProvider: IPFSProviderPlugin = {
+  name: 'pinata',
+  description: 'Pinata Cloud (JWT)',
+  upload: uploadToPinata,
+  download: (cid, config, options) => downloadFromGateways(cid, config, options),
+  async pin(pin, config) {
+    await pinataRequest(config, 'POST', '/pinning/pinByHash', {
+      hashToPin: pin.cid,
+      pinataMetadata: pin.filename ? { name: pin.filename } : undefined,
+    });
+  },
+  async unpin(pin, config) {
+    await pinataRequest(config, 'DELETE', `/pinning/unpin/${pin.cid}`);
+  },
+  async status(pin, config) {
+    const response = await pinataRequest(config, 'GET', `/data/pinList?hashContains=${pin.cid}&status=pinned`);
+    const result = await response.json() as { count: number };
+    return result.count > 0 ? 'pinned' : 'unpinned';
+  },
+};
+
+// ============ S3 ============
+
+interface S3ProviderOptions {
+  name: IPFSProvider;
+  label: string;              // Name used in messages
+  description: string;
+  endpoint?: string;          // Default endpoint; none means config.endpoint is required
+}
+
+/**
+ * IPFS provider backed by an S3-compatible bucket that pins what it stores
+ * (Filebase, or MinIO and others fronting an IPFS node) and reports the CID in a header
+ */
+function s3Provider(options: S3ProviderOptions): IPFSProviderPlugin {
+  const { name, label } = options;
+  
+  const bucketFor = (config: IPFSConfig): S3Bucket => {
+    if (!config.apiKey || !config.apiSecret) {
+      throw new Error(`${label} credentials required. Set with: ocft set-ipfs-key <accessKey> --secret <secretKey>`);
+    }
+    const endpoint = config.endpoint || options.endpoint;
+    if (!endpoint) {
+      throw new Error(`${label} endpoint required. Set with: ocft set-ipfs-bucket <bucket> -e <endpoint>`);
+    }
+    return {
+      endpoint,
+      region: config.region || 'us-east-1',
+      bucket: config.bucket || 'ocft-uploads',
+      credentials: { accessKeyId: config.apiKey, secretAccessKey: config.apiSecret },
+    };
+  };
+  const cidOf = (headers: Headers | null | undefined, config: IPFSConfig) =>
+    headers?.get(config.cidHeader || DEFAULT_CID_HEADER) ?? undefined;
+  
+  return {
+    name,
+    description: options.description,
+    
+    async upload(filePath, config) {
+      const stats = statSync(filePath);
+      const filename = basename(filePath);
+      
+      // A key of its own per upload: another file of the same name must not replace this one
+      const key = `${randomBytes(8).toString('hex')}-${filename}`;
+      const bucket = bucketFor(config);
+      const headers = await uploadObject(bucket, key, filePath, stats.size, {
+        multipartThreshold: config.multipartThreshold,
+        partSize: config.partSize,
+      });
+      
+      // The CID comes back on PUT; multipart completions need a HEAD to fetch it
+      const cid = cidOf(headers, config) || cidOf(await headObject(bucket, key), config);
+      if (!cid) {
+        throw new Error(`${label} upload succeeded but returned no CID`);
+      }
+      const gateway = config.publicGateway || PROVIDER_GATEWAYS[name];
+      
+      return {
+        cid,
+        url: `${gateway}/${cid}?filename=${encodeURIComponent(filename)}`,
+        size: stats.size,
+        filename,
+        provider: name,
+        key,
+      };
+    },
+    
+    download: (cid, config, downloadOptions) => downloadFromGateways(cid, config, downloadOptions),
+    
+    // Pins are bucket objects, addressed by the key they were uploaded under
+    async pin() {
+      throw new Error(`${label} can only pin uploaded files; upload the file again to pin it`);
+    },
+    async unpin(pin, config) {
+      const key = pin.key || pin.filename;
+      if (!key) {
+        throw new Error(`${label} unpin needs the uploaded object key`);
+      }
+      // Only delete the object while it still holds this CID, never a later upload
+      const bucket = bucketFor(config);
+      if (cidOf(await headObject(bucket, key), config) !== pin.cid) return;
+      await deleteObject(bucket, key);
+    },
+    async status(pin, config) {
+      const key = pin.key || pin.filename;
+      if (!key) {
+        throw new Error(`${label} status needs the uploaded object key`);
+      }
+      const headers = await headObject(bucketFor(config), key);
+      return cidOf(headers, config) === pin.cid ? 'pinned' : 'unpinned';
+    },
+  };
+}
+
+const filebaseProvider = s3Provider({
+  name: 'filebase',
+  label: 'Filebase',
+  description: 'Filebase (S3-compatible, access key + secret)',
+  endpoint: 'https://s3.filebase.com',
+});
+
+const genericS3Provider = s3Provider({
+  name: 's3',
+  label: 'S3',
+  description: 'Any S3-compatible store reporting CIDs, e.g. MinIO (endpoint, access key + secret)',
+});
+
+// ============ WEB3.STORAGE ============
+
+/**
+ * Upload to a web3.storage-style pinning API (raw body, CID in the response)
+ */
+async function uploadToW3s(filePath: string, config: IPFSConfig): Promise<IPFSUploadResult> {
+  const stats = statSync(filePath);
+  const filename = basename(filePath);
+  
+  const response = await w3sRequest(config, 'POST', '/upload', createReadStream(filePath) as unknown as BodyInit, {
+    'X-Name': encodeURIComponent(filename),
+    'Content-Type': 'application/octet-stream',
+    'Content-Length': String(stats.size),
+  });
   
-  // Get CID from response header
-  const cid = response.headers.get('x-amz-meta-cid') || '';
-  const gateway = config.publicGateway || PROVIDER_GATEWAYS.filebase;
+  const result = await response.json() as { cid: string };
+  const gateway = config.publicGateway || PROVIDER_GATEWAYS.w3s;
   
   return {
-    cid,
-    url: `${gateway}/${cid}?filename=${encodeURIComponent(filename)}`,
+    cid: result.cid,
+    url: `${gateway}/${result.cid}?filename=${encodeURIComponent(filename)}`,
     size: stats.size,
     filename,
-    provider: 'filebase',
+    provider: 'w3s',
   };
 }
 
+/**
+ * web3.storage API call with bearer token auth
+ */
+async function w3sRequest(
+  config: IPFSConfig,
+  method: string,
+  path: string,
+  body?: BodyInit,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  if (!config.apiKey) {
+    throw new Error('web3.storage API token required. Set with: ocft set-ipfs-key <token>');
+  }
+  
+  const response = await fetch(`${config.apiUrl || DEFAULT_W3S_API}${path}`, {
+    method,
+    headers: { 'Authorization': `Bearer ${config.apiKey}`, ...headers },
+    body,
+    duplex: 'half',
+  } as RequestInit);
+  
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`web3.storage ${method} ${path} failed: ${error}`);
+  }
+  return response;
+}
+
+const w3sProvider: IPFSProviderPlugin = {
+  name: 'w3s',
+  description: 'web3.storage-style pinning API (API token)',
+  upload: uploadToW3s,
+  download: (cid, config, options) => downloadFromGateways(cid, config, options),
+  async pin(pin, config) {
+    await w3sRequest(config, 'POST', '/pins', JSON.stringify({ cid: pin.cid, name: pin.filename }), {
+      'Content-Type': 'application/json',
+    });
+  },
+  async unpin(pin, config) {
+    await w3sRequest(config, 'DELETE', `/user/uploads/${pin.cid}`);
+  },
+  async status(pin, config) {
+    const response = await w3sRequest(config, 'GET', `/status/${pin.cid}`);
+    const result = await response.json() as { pins?: { status: string }[] };
+    return result.pins?.some(p => p.status === 'Pinned') ? 'pinned' : 'unpinned';
+  },
+};
+
+// ============ KUBO ============
+
 /**
  * Upload to local Kubo node
  */
@@ -159,16 +497,15 @@ async function uploadToKubo(filePath: string, config: IPFSConfig): Promise<IPFSU
   const stats = statSync(filePath);
   const filename = basename(filePath);
   
-  const kuboUrl = config.kuboUrl || 'http://localhost:5001';
-  
-  const FormData = (await import('form-data')).default;
-  const form = new FormData();
-  form.append('file', createReadStream(filePath), { filename });
+  const kuboUrl = config.kuboUrl || DEFAULT_KUBO_URL;
   
+  const form = await fileForm(filePath, filename, stats.size);
   const response = await fetch(`${kuboUrl}/api/v0/add?pin=true`, {
     method: 'POST',
-    body: form as any,
-  });
+    headers: form.headers,
+    body: form.body,
+    duplex: 'half',
+  } as RequestInit);
   
   if (!response.ok) {
     const error = await response.text();
@@ -188,7 +525,211 @@ async function uploadToKubo(filePath: string, config: IPFSConfig): Promise<IPFSU
 }
 
 /**
- * Generate IPFS download message
+ * Kubo RPC call (all RPC endpoints are POST)
+ */
+async function kuboRequest(config: IPFSConfig, path: string): Promise<Response> {
+  return fetch(`${config.kuboUrl || DEFAULT_KUBO_URL}/api/v0/${path}`, { method: 'POST' });
+}
+
+async function kuboCommand(config: IPFSConfig, path: string): Promise<void> {
+  const response = await kuboRequest(config, path);
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Kubo ${path.split('?')[0]} failed: ${error}`);
+  }
+}
+
+// Local node first (no gateway round trip), then gateways
+const kuboProvider: IPFSProviderPlugin = {
+  name: 'kubo',
+  description: 'Local IPFS node (Kubo RPC API)',
+  upload: uploadToKubo,
+  download: (cid, config, options) => downloadFromGateways(cid, config, options, [
+    { url: `${config.kuboUrl || DEFAULT_KUBO_URL}/api/v0/cat?arg=${cid}`, method: 'POST' },
+  ]),
+  async pin(pin, config) {
+    await kuboCommand(config, `pin/add?arg=${pin.cid}`);
+  },
+  async unpin(pin, config) {
+    await kuboCommand(config, `pin/rm?arg=${pin.cid}`);
+  },
+  async status(pin, config) {
+    const response = await kuboRequest(config, `pin/ls?arg=${pin.cid}&type=recursive`);
+    if (response.ok) return 'pinned';
+    
+    const error = await response.text();
+    if (error.includes('not pinned')) return 'unpinned';
+    throw new Error(`Kubo pin/ls failed: ${error}`);
+  },
+};
+
+registerIPFSProvider(pinataProvider);
+registerIPFSProvider(filebaseProvider);
+registerIPFSProvider(genericS3Provider);
+registerIPFSProvider(w3sProvider);
+registerIPFSProvider(kuboProvider);
+
+// ============ DOWNLOADS ============
+
+/**
+ * Download through HTTP gateways, trying each source until one delivers the expected content.
+ * Sources: preferred (provider-specific), configured gateway, extra URLs, fallback gateways.
+ * Providers without a special download path can use this directly.
+ */
+export async function downloadFromGateways(
+  cid: string,
+  config: IPFSConfig,
+  options: IPFSDownloadOptions,
+  preferred: IPFSSource[] = []
+): Promise<IPFSDownloadResult> {
+  if (!isValidCID(cid)) {
+    throw new Error(`Invalid CID: ${cid}`);
+  }
+  
+  const sources: IPFSSource[] = [...preferred];
+  const gateways = [
+    ...(config.publicGateway ? [`${config.publicGateway}/${cid}`] : []),
+    ...(options.urls || []),
+    ...(config.gateways || DEFAULT_FALLBACK_GATEWAYS).map(gateway => `${gateway}/${cid}`),
+  ];
+  for (const url of new Set(gateways)) {
+    sources.push({ url, method: 'GET' });
+  }
+  
+  const errors: string[] = [];
+  for (const source of sources) {
+    try {
+      return await downloadFrom(source.url, source.method || 'GET', cid, config, options);
+    } catch (err) {
+      errors.push(`${source.url}: ${(err as Error).message}`);
+    }
+  }
+  throw new Error(`IPFS download failed for ${cid}\n  ${errors.join('\n  ')}`);
+}
+
+/**
+ * Stream one source into the partial file; rename only if size and hash match
+ */
+async function downloadFrom(
+  url: string,
+  method: 'GET' | 'POST',
+  cid: string,
+  config: IPFSConfig,
+  options: IPFSDownloadOptions
+): Promise<IPFSDownloadResult> {
+  const controller = new AbortController();
+  const idleTimeout = config.gatewayTimeout || DEFAULT_GATEWAY_TIMEOUT;
+  let timer = setTimeout(() => controller.abort(), idleTimeout);
+  
+  const partPath = `${options.outputPath}${PART_SUFFIX}`;
+  const hash = createHash('sha256');
+  let size = 0;
+  
+  // Hash and count bytes as they stream; abort as soon as the file is too large
+  const verify = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), idleTimeout);
+      
+      size += chunk.length;
+      if (options.size !== undefined && size > options.size) {
+        callback(new Error(`Larger than expected ${options.size} bytes`));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+  
+  try {
+    const response = await fetch(url, { method, signal: controller.signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    
+    await pipeline(Readable.fromWeb(response.body as ReadableStream), verify, createWriteStream(partPath));
+    
+    if (options.size !== undefined && size !== options.size) {
+      throw new Error(`Size mismatch: expected ${options.size} bytes, got ${size}`);
+    }
+    const actualHash = hash.digest('hex');
+    if (options.hash && actualHash !== options.hash) {
+      throw new Error(`Hash mismatch: expected ${options.hash}, got ${actualHash}`);
+    }
+    
+    await rename(partPath, options.outputPath);
+    return { cid, path: options.outputPath, size, hash: actualHash, source: url };
+  } catch (err) {
+    await rm(partPath, { force: true });
+    if (controller.signal.aborted) {
+      throw new Error(`No data for ${idleTimeout / 1000}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Check that a string looks like a CID (CIDv0 base58 or CIDv1 base32/base36)
+ */
+export function isValidCID(cid: string): boolean {
+  return typeof cid === 'string' && /^[a-zA-Z0-9]{10,128}$/.test(cid);
+}
+
+/**
+ * Extract the CID (and filename hint) from a CID, ipfs:// link or gateway URL
+ */
+export function parseIPFSLink(link: string): { cid: string; filename?: string; url?: string } | null {
+  if (isValidCID(link)) return { cid: link };
+  
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  
+  const filename = url.searchParams.get('filename') || undefined;
+  if (url.protocol === 'ipfs:') {
+    const cid = url.hostname || url.pathname.replace(/^\/+/, '').split('/')[0];
+    return isValidCID(cid) ? { cid, filename } : null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  
+  // Path gateway: https://gateway/ipfs/<cid>
+  const match = url.pathname.match(/\/ipfs\/([a-zA-Z0-9]+)/);
+  if (match && isValidCID(match[1])) return { cid: match[1], filename, url: link };
+  
+  // Subdomain gateway: https://<cid>.ipfs.gateway/
+  const [subdomain, namespace] = url.hostname.split('.');
+  if (namespace === 'ipfs' && isValidCID(subdomain)) return { cid: subdomain, filename, url: link };
+  
+  return null;
+}
+
+// ============ HELPERS ============
+
+/**
+ * Multipart body streaming a file from disk (form-data streams are not valid fetch bodies)
+ */
+async function fileForm(
+  filePath: string,
+  filename: string,
+  size: number
+): Promise<{ headers: Record<string, string>; body: BodyInit }> {
+  const FormData = (await import('form-data')).default;
+  const form = new FormData();
+  form.append('file', createReadStream(filePath), { filename, knownLength: size });
+  
+  return {
+    headers: { ...form.getHeaders(), 'content-length': String(form.getLengthSync()) },
+    body: form.pipe(new PassThrough()) as unknown as BodyInit,
+  };
+}
+
+/**
+ * Generate IPFS download message (never contains a decryption key)
  */
 export function formatIPFSMessage(result: IPFSUploadResult): string {
   return `📦 IPFS File Transfer\n\n` +
@@ -196,7 +737,8 @@ export function formatIPFSMessage(result: IPFSUploadResult): string {
     `📊 ${formatSize(result.size)}\n` +
     `🔗 ${result.url}\n\n` +
     `CID: ${result.cid}\n` +
-    `Provider: ${result.provider}`;
+    `Provider: ${result.provider}` +
+    (result.encrypted ? `\n🔒 Encrypted: the key is delivered to the recipient separately` : '');
 }
 
 function formatSize(bytes: number): string {
@@ -209,5 +751,8 @@ function formatSize(bytes: number): string {
 export default {
   shouldUseIPFS,
   uploadToIPFS,
+  downloadFromIPFS,
+  registerIPFSProvider,
+  listIPFSProviders,
   formatIPFSMessage,
 };
@@ -0,0 +1,244 @@
+/**
+ * OCFT - Directory Manifests
+ * A directory travels as one stream: its files concatenated in manifest order
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { lstat, readdir, open, mkdir, chmod, rename, rm } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { ManifestEntry } from './protocol.js';
+import { Chunk, PART_SUFFIX, sha256 } from './chunker.js';
+import { sanitizeRelativePath, resolveInside } from './paths.js';
+
+// Received directories are assembled next to their target as <dir>.ocft-bundle
+export const BUNDLE_SUFFIX = '.ocft-bundle';
+export const DIRECTORY_MIME_TYPE = 'inode/directory';
+export const MAX_MANIFEST_ENTRIES = 10000;
+
+const MAX_PATH_LENGTH = 4096;
+const COPY_BLOCK_SIZE = 1024 * 1024;
+
+export interface DirectoryInfo {
+  name: string;
+  size: number;            // Total of all files
+  hash: string;            // SHA-256 of the concatenated files
+  entries: ManifestEntry[];
+}
+
+// Walk a directory (regular files only; symlinks are not followed) and hash every file
+export async function getDirectoryInfo(dirPath: string): Promise<DirectoryInfo> {
+  const root = resolve(dirPath);
+  const entries: ManifestEntry[] = [];
+  const total = createHash('sha256');
+  
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    const names = (await readdir(dir)).sort();
+    for (const name of names) {
+      const path = join(dir, name);
+      const stats = await lstat(path);
+      const relative = prefix ? `${prefix}/${name}` : name;
+      
+      if (stats.isDirectory()) {
+        await walk(path, relative);
+      } else if (stats.isFile()) {
+        if (entries.length >= MAX_MANIFEST_ENTRIES) {
+          throw new Error(`Too many files (max ${MAX_MANIFEST_ENTRIES})`);
+        }
+        const hash = createHash('sha256');
+        for await (const data of createReadStream(path)) {
+          hash.update(data);
+          total.update(data);
+        }
+        entries.push({ path: relative, size: stats.size, mode: stats.mode & 0o777, hash: hash.digest('hex') });
+      }
+    }
+  };
+  await walk(root, '');
+  
+  return {
+    name: basename(root) || 'files',
+    size: entries.reduce((sum, entry) => sum + entry.size, 0),
+    hash: total.digest('hex'),
+    entries
+  };
+}
+
+// Validate a peer's manifest against the offered size; returns it with sanitized paths,
+// or null if it is malformed or two entries would land on the same path
+export function sanitizeManifest(entries: unknown, size: number): ManifestEntry[] | null {
+  if (!Array.isArray(entries) || entries.length > MAX_MANIFEST_ENTRIES) return null;
+  
+  const sanitized: ManifestEntry[] = [];
+  const files = new Set<string>();
+  const dirs = new Set<string>();
+  let total = 0;
+  
+  for (const entry of entries as Partial<ManifestEntry>[]) {
+    if (typeof entry?.path !== 'string' || !entry.path || entry.path.length > MAX_PATH_LENGTH) return null;
+    if (!Number.isSafeInteger(entry.size) || entry.size! < 0) return null;
+    if (!Number.isInteger(entry.mode) || entry.mode! < 0 || entry.mode! > 0o777) return null;
+    if (typeof entry.hash !== 'string' || !/^[0-9a-f]{64}$/.test(entry.hash)) return null;
+    
+    // A path may not repeat, or be a file in one entry and a directory in another
+    const path = sanitizeRelativePath(entry.path);
+    const key = path.toLowerCase(); // Case-insensitive filesystems would merge them
+    if (files.has(key) || dirs.has(key)) return null;
+    const segments = key.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const dir = segments.slice(0, i).join('/');
+      if (files.has(dir)) return null;
+      dirs.add(dir);
+    }
+    files.add(key);
+    
+    total += entry.size!;
+    sanitized.push({ path, size: entry.size!, mode: entry.mode!, hash: entry.hash });
+  }
+  
+  return total === size ? sanitized : null;
+}
+
+// Offset of each entry in the concatenated stream
+export function manifestOffsets(entries: ManifestEntry[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    offsets.push(offset);
+    offset += entry.size;
+  }
+  return offsets;
+}
+
+// Indices of the (non-empty) entries with bytes in a chunk
+export function entriesInChunk(
+  entries: ManifestEntry[],
+  index: number,
+  chunkSize: number,
+  offsets = manifestOffsets(entries)
+): number[] {
+  const start = index * chunkSize;
+  const end = start + chunkSize;
+  
+  // First entry ending after the chunk start
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] + entries[mid].size <= start) low = mid + 1; else high = mid;
+  }
+  
+  const found: number[] = [];
+  for (let i = low; i < entries.length && offsets[i] < end; i++) {
+    if (entries[i].size > 0) found.push(i);
+  }
+  return found;
+}
+
+// Chunk indices the bytes at [offset, offset + size) span (none when empty)
+function spannedChunks(offset: number, size: number, chunkSize: number): number[] {
+  const chunks: number[] = [];
+  if (size === 0) return chunks;
+  for (let c = Math.floor(offset / chunkSize); c <= Math.floor((offset + size - 1) / chunkSize); c++) {
+    chunks.push(c);
+  }
+  return chunks;
+}
+
+// Entries whose last missing byte arrived with this chunk (every chunk they span is done)
+export function entriesCompletedBy(
+  entries: ManifestEntry[],
+  index: number,
+  chunkSize: number,
+  isDone: (index: number) => boolean
+): number[] {
+  const offsets = manifestOffsets(entries);
+  return entriesInChunk(entries, index, chunkSize, offsets)
+    .filter(i => spannedChunks(offsets[i], entries[i].size, chunkSize).every(isDone));
+}
+
+// Read a chunk of the concatenated stream from the files under root
+export async function readManifestChunk(
+  root: string,
+  entries: ManifestEntry[],
+  index: number,
+  chunkSize: number
+): Promise<Chunk> {
+  const offsets = manifestOffsets(entries);
+  const start = index * chunkSize;
+  const end = start + chunkSize;
+  const parts: Buffer[] = [];
+  
+  for (const i of entriesInChunk(entries, index, chunkSize, offsets)) {
+    const from = Math.max(start, offsets[i]) - offsets[i];
+    const length = Math.min(end, offsets[i] + entries[i].size) - offsets[i] - from;
+    
+    const handle = await open(join(root, ...entries[i].path.split('/')), 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, from);
+      if (bytesRead !== length) {
+        throw new Error(`File changed since transfer started: ${entries[i].path}`);
+      }
+      parts.push(buffer);
+    } finally {
+      await handle.close();
+    }
+  }
+  
+  const data = Buffer.concat(parts);
+  return { index, data, hash: sha256(data) };
+}
+
+// Copy one entry out of the received stream to its place under root, checking its hash.
+// Returns the path it was written to.
+export async function extractEntry(source: string, offset: number, entry: ManifestEntry, root: string): Promise<string> {
+  const target = resolveInside(root, entry.path);
+  await makeParents(root, entry.path);
+  
+  const partPath = `${target}${PART_SUFFIX}`;
+  const hash = createHash('sha256');
+  
+  const input = await open(source, 'r');
+  const output = await open(partPath, 'w', 0o600);
+  try {
+    const buffer = Buffer.alloc(Math.min(COPY_BLOCK_SIZE, Math.max(entry.size, 1)));
+    for (let copied = 0; copied < entry.size;) {
+      const { bytesRead } = await input.read(buffer, 0, Math.min(buffer.length, entry.size - copied), offset + copied);
+      if (!bytesRead) throw new Error(`Received data ends inside ${entry.path}`);
+      hash.update(buffer.subarray(0, bytesRead));
+      await output.write(buffer, 0, bytesRead);
+      copied += bytesRead;
+    }
+  } finally {
+    await input.close();
+    await output.close();
+  }
+  
+  if (hash.digest('hex') !== entry.hash) {
+    await rm(partPath, { force: true });
+    throw new Error(`Hash mismatch for ${entry.path}`);
+  }
+  
+  // Keep the peer's permission bits, but never lock ourselves out of the file
+  await chmod(partPath, (entry.mode & 0o777) | 0o600);
+  await rename(partPath, target);
+  return target;
+}
+
+// Create the directories above a relative path one level at a time. A directory that
+// already existed (overwrite policy) may hold symlinks: never follow them out of root.
+async function makeParents(root: string, path: string): Promise<void> {
+  let dir = root;
+  for (const segment of path.split('/').slice(0, -1)) {
+    dir = join(dir, segment);
+    try {
+      if (!(await lstat(dir)).isDirectory()) {
+        throw new Error(`Not a directory: ${dir}`);
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      await mkdir(dir);
+    }
+  }
+}
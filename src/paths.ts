@@ -0,0 +1,97 @@
+/**
+ * OCFT - Safe Paths
+ * Sanitize peer-supplied filenames and keep received files inside the download directory
+ */
+
+import { existsSync } from 'fs';
+import { resolve, relative, isAbsolute, extname } from 'path';
+import { PART_SUFFIX } from './chunker.js';
+
+// What to do when a received file would replace an existing one
+export type CollisionPolicy = 'rename' | 'overwrite' | 'reject';
+
+const MAX_FILENAME_BYTES = 255;
+
+// C0/C1 controls, DEL and bidi formatting marks (which can disguise an extension: "invoice\u202Efdp.exe")
+const CONTROL_CHARACTERS = /[\p{Cc}\u061c\u200e\u200f\u202a-\u202e\u2066-\u2069]/gu;
+
+// Device names Windows refuses as filenames (with or without extension)
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// Turn a peer-supplied filename into a single safe path segment
+export function sanitizeFilename(name: string): string {
+  // Keep only the last path segment: peers never choose directories
+  let safe = String(name).split(/[/\\]/).pop() || '';
+  
+  safe = safe
+    .replace(CONTROL_CHARACTERS, '')     // Control and bidi formatting characters
+    .replace(/[<>:"|?*]/g, '_')          // Characters invalid on common filesystems
+    .replace(/[. ]+$/, '')               // Trailing dots/spaces (stripped by Windows)
+    .trim();
+  
+  if (!safe || safe === '.' || safe === '..') return 'file';
+  if (RESERVED_NAMES.test(safe)) safe = `_${safe}`;
+  
+  // Truncate overlong names, keeping the extension
+  if (Buffer.byteLength(safe) > MAX_FILENAME_BYTES) {
+    const ext = extname(safe).slice(0, 32);
+    let base = safe.slice(0, safe.length - ext.length);
+    while (Buffer.byteLength(base + ext) > MAX_FILENAME_BYTES) {
+      base = base.slice(0, -1);
+    }
+    safe = base + ext;
+  }
+  
+  return safe;
+}
+
+// Turn a peer-supplied relative path (directory transfers) into safe segments joined by '/'.
+// Every segment follows the filename rules; empty, '.' and '..' segments are dropped.
+export function sanitizeRelativePath(path: string): string {
+  const segments = String(path).split(/[/\\]/).filter(segment => segment && segment !== '.' && segment !== '..');
+  return segments.map(sanitizeFilename).join('/') || 'file';
+}
+
+// Resolve a relative path under dir; throws if it would escape dir
+export function resolveInside(dir: string, name: string): string {
+  const root = resolve(dir);
+  const target = resolve(root, name);
+  const rel = relative(root, target);
+  
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Path escapes download directory: ${name}`);
+  }
+  return target;
+}
+
+// Pick the output path for a received file according to the collision policy.
+// Returns null when the policy is 'reject' and the name is taken.
+export function resolveDownloadPath(
+  dir: string,
+  filename: string,
+  policy: CollisionPolicy = 'rename',
+  reserved: Set<string> = new Set()   // Paths claimed by other active transfers
+): { path: string; collision?: 'renamed' | 'overwritten' } | null {
+  const safe = sanitizeFilename(filename);
+  const path = resolveInside(dir, safe);
+  const taken = (p: string) => reserved.has(p) || existsSync(p) || existsSync(`${p}${PART_SUFFIX}`);
+  
+  if (!taken(path)) return { path };
+  
+  switch (policy) {
+    case 'overwrite':
+      // Never overwrite a file another transfer is still writing
+      if (!reserved.has(path)) return { path, collision: 'overwritten' };
+      return null;
+    case 'reject':
+      return null;
+    case 'rename': {
+      const ext = extname(safe);
+      const base = safe.slice(0, safe.length - ext.length);
+      for (let i = 1; ; i++) {
+        const candidate = resolveInside(dir, sanitizeFilename(`${base} (${i})${ext}`));
+        if (!taken(candidate)) return { path: candidate, collision: 'renamed' };
+      }
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * OCFT - Pin Ledger
+ * Records every IPFS upload so pins can be listed, released and expired
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { IPFSConfig, IPFSUploadResult, unpinFromIPFS } from './ipfs.js';
+
+export const DEFAULT_PINS_FILE = join(homedir(), '.ocft', 'pins.json');
+
+// One upload as recorded in the ledger
+export interface PinRecord extends IPFSUploadResult {
+  uploadedAt: number;
+  peerId?: string;       // Receiver the file was offered to
+  transferId?: string;
+  confirmedAt?: number;  // Receiver reported a verified download
+}
+
+// Pluggable persistence for IPFS uploads
+export interface PinLedger {
+  list(): Promise<PinRecord[]>;
+  add(record: PinRecord): Promise<void>;
+  confirm(transferId: string): Promise<PinRecord | undefined>;
+  remove(cid: string): Promise<PinRecord[]>;  // Returns the removed records
+}
+
+// Default ledger: a single JSON file at ~/.ocft/pins.json
+export class FilePinLedger implements PinLedger {
+  private path: string;
+  private writing: Promise<unknown> = Promise.resolve(); // Serializes read-modify-write cycles
+  
+  constructor(path = DEFAULT_PINS_FILE) {
+    this.path = path;
+  }
+  
+  async list(): Promise<PinRecord[]> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf-8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []; // Nothing uploaded yet
+      throw new Error(`Unreadable pin ledger ${this.path}: ${(err as Error).message}`);
+    }
+  }
+  
+  async add(record: PinRecord): Promise<void> {
+    await this.update(records => [...records, record]);
+  }
+  
+  async confirm(transferId: string): Promise<PinRecord | undefined> {
+    let confirmed: PinRecord | undefined;
+    await this.update(records => records.map(record => {
+      if (record.transferId !== transferId) return record;
+      confirmed = { ...record, confirmedAt: Date.now() };
+      return confirmed;
+    }));
+    return confirmed;
+  }
+  
+  async remove(cid: string): Promise<PinRecord[]> {
+    let removed: PinRecord[] = [];
+    await this.update(records => {
+      removed = records.filter(record => record.cid === cid);
+      return records.filter(record => record.cid !== cid);
+    });
+    return removed;
+  }
+  
+  private update(change: (records: PinRecord[]) => PinRecord[]): Promise<void> {
+    const next = this.writing.then(async () => {
+      const records = change(await this.list());
+      await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+      
+      // Write then rename so a crash never leaves a truncated ledger. It lists what was
+      // shared with whom: owner only.
+      await writeFile(`${this.path}.tmp`, JSON.stringify(records, null, 2), { mode: 0o600 });
+      await rename(`${this.path}.tmp`, this.path);
+    });
+    this.writing = next.catch(() => {});
+    return next;
+  }
+}
+
+// Unpin a CID from the provider that pinned it, then drop it from the ledger.
+// CIDs missing from the ledger are unpinned from the configured provider.
+export async function releasePin(ledger: PinLedger, cid: string, config: IPFSConfig): Promise<PinRecord[]> {
+  const records = (await ledger.list()).filter(record => record.cid === cid);
+  
+  // Object stores hold one copy per upload: release each of them
+  const pins = new Map<string, { provider?: string; filename?: string; key?: string }>();
+  for (const { provider, filename, key } of records) {
+    pins.set(`${provider}/${key ?? filename}`, { provider, filename, key });
+  }
+  if (!pins.size) pins.set('', { provider: config.provider });
+  
+  for (const { provider, filename, key } of pins.values()) {
+    await unpinFromIPFS({ cid, filename, key }, { ...config, provider });
+  }
+  return ledger.remove(cid);
+}
@@ -3,11 +3,37 @@
  * Message Types and Interfaces
  */
 
-export const OCFT_VERSION = '1.0';
+import { randomBytes } from 'crypto';
+
+export const OCFT_VERSION = '1.1';      // Newest version we speak (written on messages by default)
+export const OCFT_MIN_VERSION = '1.0';  // Oldest version we still understand
+
+// Protocol features a peer advertises in offer/accept (both sides use the intersection)
+export type Capability =
+  | 'windowing'   // Several chunks in flight, acked in any order
+  | 'resume'      // Re-offers continue from the chunks already received
+  | 'encryption'  // End-to-end encrypted chunks
+  | 'binary'      // Raw binary chunk frames on transports that carry them
+  | 'manifest'    // Directory transfers (offer carries a file manifest)
+  | 'compression' // Chunks compressed before encoding (algorithm picked by the sender)
+  | 'dedup'       // Content-defined chunks; the receiver reuses chunks it has cached
+  | 'resize';     // Receiver can ask for smaller chunks that fit its channel
+
+// Per-chunk compression algorithms (zlib)
+export type CompressionAlgorithm = 'gzip' | 'br';
+export const COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ['gzip', 'br'];
+
+// Versions a peer supports ("major.minor", same major version)
+export interface VersionRange {
+  min: string;
+  max: string;
+}
 
 // Message Types
 export type MessageType = 
   | 'offer'      // File transfer offer
+  | 'ipfs-offer' // File transfer offer for a file uploaded to IPFS
+  | 'ipfs-key'   // Key for an encrypted IPFS upload (after accept)
   | 'accept'     // Accept transfer
   | 'reject'     // Reject transfer
   | 'chunk'      // Data chunk
@@ -24,6 +50,7 @@ export interface OCFTMessage {
   to: string;         // Receiver bot ID
   timestamp: number;
   payload: unknown;
+  mac?: string;       // HMAC-SHA256 over all other fields (per-transfer key)
 }
 
 // Offer Payload - File transfer proposal
@@ -34,16 +61,92 @@ export interface OfferPayload {
   hash: string;        // SHA-256 of entire file
   chunkSize: number;   // bytes per chunk (default 48KB for base64 safety)
   totalChunks: number;
-  secret?: string;     // Optional secret for auto-accept
+  proof?: string;      // HMAC-SHA256 proof of the receiver's secret (for auto-accept)
+  secret?: string;     // Legacy: plaintext receiver secret (only in compatibility mode)
   secretTTL?: number;  // Secret expiry timestamp (ms since epoch)
   resumeFrom?: number; // Resume from chunk index (for interrupted transfers)
+  encryption?: EncryptionParams; // Request end-to-end encrypted chunks
+  binary?: BinaryParams; // Sender can send raw binary frames with this chunk layout instead
+  versions?: VersionRange; // Absent: peer predates negotiation (1.0)
+  capabilities?: Capability[];
+  manifest?: ManifestEntry[]; // Directory transfer: the files, concatenated in this order, make up the data
+  compression?: CompressionAlgorithm; // Sender can compress chunks with this algorithm
+  chunks?: ChunkRef[]; // Content-defined layout the sender can use instead (sizes vary)
   metadata?: Record<string, unknown>;
 }
 
+// One file of a directory transfer
+export interface ManifestEntry {
+  path: string;        // Relative path with '/' separators
+  size: number;
+  mode: number;        // Permission bits (e.g. 0o644)
+  hash: string;        // SHA-256 of the file
+}
+
+// One chunk of a content-defined layout (chunks follow each other in file order)
+export interface ChunkRef {
+  size: number;
+  hash: string;        // SHA-256 of the chunk (also its key in the receiver's cache)
+}
+
+// Chunk layout for binary frames (larger chunks: no Base64 or chat size limits)
+export interface BinaryParams {
+  chunkSize: number;
+  totalChunks: number;
+  relay?: string;      // Relay URL the frames go through (absent: direct connection)
+}
+
+// IPFS Offer Payload - File already uploaded to IPFS, receiver fetches it by CID
+export interface IPFSOfferPayload {
+  filename: string;
+  size: number;
+  mimeType: string;
+  hash: string;        // SHA-256 of entire file (verified after download)
+  cid: string;         // IPFS content identifier
+  url: string;         // Gateway URL the sender uploaded through
+  cipher?: IPFSCipherParams;     // Upload is encrypted: the key follows in an ipfs-key message
+  encryption?: EncryptionParams; // E2E handshake, used to protect the ipfs-key message
+  proof?: string;      // HMAC-SHA256 proof of the receiver's secret (for auto-accept)
+  secret?: string;     // Legacy: plaintext receiver secret (only in compatibility mode)
+  secretTTL?: number;  // Secret expiry timestamp (ms since epoch)
+  versions?: VersionRange;
+  capabilities?: Capability[];
+  metadata?: Record<string, unknown>;
+}
+
+// Client-side encryption of an IPFS upload (size and hash describe the encrypted file)
+export interface IPFSCipherParams {
+  scheme: string;      // e.g. 'aes-256-gcm-segmented'
+  segmentSize: number; // Plaintext bytes per sealed segment
+  size: number;
+  hash: string;        // SHA-256 of the encrypted file (verified before decrypting)
+}
+
+// IPFS Key Payload - File key sealed under the transfer's shared secret or E2E session
+export interface IPFSKeyPayload {
+  key: string;         // Sealed key (base64)
+}
+
+// End-to-end encryption parameters (offer: sender's key + salt, accept: receiver's key)
+export interface EncryptionParams {
+  scheme: string;      // Key agreement + cipher, e.g. 'x25519-aes-256-gcm'
+  publicKey: string;   // X25519 public key (base64url)
+  salt?: string;       // Session key derivation salt (offer only)
+}
+
 // Accept Payload
 export interface AcceptPayload {
   ready: boolean;
   resumeFrom?: number; // If resuming, start from this chunk index
+  missingChunks?: number[]; // If resuming, only these chunks are needed
+  encryption?: EncryptionParams; // Receiver's key when encryption was requested
+  binary?: boolean;    // Receiver takes the offered binary layout
+  compression?: CompressionAlgorithm; // Receiver decompresses chunks with the offered algorithm
+  contentDefined?: boolean; // Receiver takes the offered content-defined layout
+  cached?: string[];   // Hashes of offered chunks the receiver already has (not to be sent)
+  chunkSize?: number;  // Chunk size the receiver can take (text chunks; at most the offered one)
+  version?: string;    // Version picked from the offered range
+  capabilities?: Capability[]; // Offered capabilities the receiver supports too
 }
 
 // Reject Payload
@@ -54,8 +157,9 @@ export interface RejectPayload {
 // Chunk Payload
 export interface ChunkPayload {
   index: number;
-  data: string;        // Base64 encoded
-  hash: string;        // SHA-256 of this chunk
+  data?: string;       // Base64 encoded (nonce | ciphertext | tag when encrypted); absent in binary frames
+  hash: string;        // SHA-256 of this chunk (plaintext, uncompressed)
+  compressed?: boolean; // Data was compressed (before encryption) with the negotiated algorithm
 }
 
 // Ack Payload
@@ -63,6 +167,7 @@ export interface AckPayload {
   index: number;
   received: boolean;
   error?: string;
+  missingChunks?: number[]; // Final ack only: chunks to retransmit
 }
 
 // Complete Payload
@@ -107,7 +212,26 @@ export interface TransferInfo {
   completedAt?: number;
   error?: string;
   localPath?: string;  // For receiver: where to save
+  collision?: 'renamed' | 'overwritten'; // For receiver: how an existing file with the same name was handled
   resumable?: boolean; // Can this transfer be resumed?
+  secretAuth?: boolean; // Sender proved the receiver's secret: it keys message MACs
+  unsignedPeer?: boolean; // Sender: peer predates message MACs (legacySecrets), its replies carry none
+  binary?: boolean;    // Chunks travel as binary frames (negotiated in offer/accept)
+  compression?: CompressionAlgorithm; // Chunks may be compressed (negotiated in offer/accept)
+  chunks?: ChunkRef[]; // Content-defined layout (sender: offered; receiver: taken)
+  contentDefined?: boolean; // Chunks follow the content-defined layout (negotiated in offer/accept)
+  version?: string;    // Negotiated protocol version (written on this transfer's messages)
+  capabilities?: Capability[]; // Negotiated capabilities (absent: peer predates negotiation)
+  manifest?: ManifestEntry[]; // Directory transfer: files in the data (localPath is the directory)
+  encryption?: {       // Set when chunks are end-to-end encrypted
+    salt: string;
+    peerPublicKey?: string;  // Known once the peer's offer/accept arrives
+  };
+  ipfs?: {             // Set when the file travels through IPFS instead of chunks
+    cid: string;
+    url: string;
+    cipher?: IPFSCipherParams; // Set when the upload is encrypted
+  };
 }
 
 // Create Message Helper
@@ -137,15 +261,67 @@ export function serialize(msg: OCFTMessage): string {
 export function deserialize(data: string): OCFTMessage | null {
   try {
     const msg = JSON.parse(data);
-    if (msg.version && msg.type && msg.transferId) {
-      return msg as OCFTMessage;
-    }
-    return null;
+    return isValidMessage(msg) ? msg : null;
   } catch {
     return null;
   }
 }
 
+// Structural check of a decoded message (whether we speak its version is up to the receiver)
+function isValidMessage(msg: Partial<OCFTMessage> | null): msg is OCFTMessage {
+  return typeof msg === 'object' && msg !== null &&
+    typeof msg.version === 'string' && parseVersion(msg.version) !== null &&
+    typeof msg.type === 'string' &&
+    typeof msg.transferId === 'string' && msg.transferId.length > 0 &&
+    typeof msg.from === 'string' && typeof msg.to === 'string' &&
+    typeof msg.timestamp === 'number' &&
+    typeof msg.payload === 'object' && msg.payload !== null &&
+    (msg.mac === undefined || typeof msg.mac === 'string');
+}
+
+// ============ VERSIONS ============
+
+// Parse "major.minor"; null if malformed
+export function parseVersion(version: string): [number, number] | null {
+  const match = /^(\d{1,6})\.(\d{1,6})$/.exec(version);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+// Negative if a is older than b, positive if newer (both must be valid)
+export function compareVersions(a: string, b: string): number {
+  const [majorA, minorA] = parseVersion(a)!;
+  const [majorB, minorB] = parseVersion(b)!;
+  return majorA !== majorB ? majorA - majorB : minorA - minorB;
+}
+
+// Messages of another major version may mean anything: they are refused, not guessed at.
+// Newer minor versions only add optional fields.
+export function isKnownMajorVersion(version: string): boolean {
+  const parsed = parseVersion(version);
+  return !!parsed && parsed[0] === parseVersion(OCFT_VERSION)![0];
+}
+
+// Within the range we speak
+export function isSupportedVersion(version: string): boolean {
+  return isKnownMajorVersion(version) &&
+    compareVersions(version, OCFT_MIN_VERSION) >= 0 && compareVersions(version, OCFT_VERSION) <= 0;
+}
+
+// Newest version in both the peer's range and ours; null if they do not overlap
+export function negotiateVersion(range: VersionRange): string | null {
+  if (typeof range?.min !== 'string' || typeof range.max !== 'string') return null;
+  if (!parseVersion(range.min) || !parseVersion(range.max)) return null;
+  
+  const version = compareVersions(range.max, OCFT_VERSION) < 0 ? range.max : OCFT_VERSION;
+  const floor = compareVersions(range.min, OCFT_MIN_VERSION) > 0 ? range.min : OCFT_MIN_VERSION;
+  return compareVersions(version, floor) >= 0 ? version : null;
+}
+
+// Our capabilities the peer advertised too (unknown names are ignored)
+export function negotiateCapabilities(theirs: unknown, ours: Capability[]): Capability[] {
+  return Array.isArray(theirs) ? ours.filter(capability => theirs.includes(capability)) : [];
+}
+
 // Magic prefix for OCFT messages (to identify in chat)
 export const OCFT_PREFIX = '🔗OCFT:';
 
@@ -156,6 +332,15 @@ export function encodeForChat(msg: OCFTMessage): string {
   return `${OCFT_PREFIX}${b64}`;
 }
 
+// Largest chunk data (bytes as sent, i.e. after encryption) whose encoded chunk message
+// stays within maxChars. template is the chunk message as it will be sent, minus the data.
+export function maxChunkData(template: OCFTMessage, maxChars: number): number {
+  const empty = { ...template, payload: { ...(template.payload as ChunkPayload), data: '' } };
+  const jsonBytes = Math.floor((maxChars - OCFT_PREFIX.length) / 4) * 3;
+  const dataChars = jsonBytes - Buffer.byteLength(serialize(empty));
+  return Math.max(0, Math.floor(dataChars / 4) * 3);
+}
+
 // Decode message from chat
 export function decodeFromChat(text: string): OCFTMessage | null {
   if (!text.startsWith(OCFT_PREFIX)) return null;
@@ -167,3 +352,84 @@ export function decodeFromChat(text: string): OCFTMessage | null {
     return null;
   }
 }
+
+// Fragments for channels with short messages: 🔗OCFT2:<msgId>:<part>/<total>:<data>.
+// The data of parts 1 to total, joined, is the Base64 of one ordinary message.
+export const OCFT_FRAGMENT_PREFIX = '🔗OCFT2:';
+export const MAX_FRAGMENTS = 65536;
+
+export interface Fragment {
+  msgId: string;
+  part: number;        // 1-based
+  total: number;
+  data: string;
+}
+
+// Encode message for a channel that carries at most maxChars per message:
+// one ordinary message if it fits, fragments otherwise
+export function splitForChat(msg: OCFTMessage, maxChars: number): string[] {
+  const encoded = encodeForChat(msg);
+  if (encoded.length <= maxChars) return [encoded];
+  
+  const b64 = encoded.slice(OCFT_PREFIX.length);
+  const msgId = randomBytes(6).toString('base64url');
+  
+  // The header grows with the part count: settle on a count whose parts all fit
+  let total = 1;
+  let perPart = 0;
+  for (;;) {
+    perPart = maxChars - `${OCFT_FRAGMENT_PREFIX}${msgId}:${total}/${total}:`.length;
+    if (perPart <= 0) {
+      throw new Error(`Message limit of ${maxChars} characters is too small for fragments`);
+    }
+    const needed = Math.ceil(b64.length / perPart);
+    if (needed <= total) break;
+    total = needed;
+  }
+  if (total > MAX_FRAGMENTS) {
+    throw new Error(`Message needs ${total} fragments (at most ${MAX_FRAGMENTS})`);
+  }
+  
+  const parts: string[] = [];
+  for (let i = 0; i < total; i++) {
+    parts.push(`${OCFT_FRAGMENT_PREFIX}${msgId}:${i + 1}/${total}:${b64.slice(i * perPart, (i + 1) * perPart)}`);
+  }
+  return parts;
+}
+
+// Parse a fragment; null if the text is not a well-formed one
+export function parseFragment(text: string): Fragment | null {
+  if (!text.startsWith(OCFT_FRAGMENT_PREFIX)) return null;
+  
+  const match = /^([A-Za-z0-9_-]{1,32}):(\d{1,6})\/(\d{1,6}):([A-Za-z0-9+/=]*)$/.exec(text.slice(OCFT_FRAGMENT_PREFIX.length));
+  if (!match) return null;
+  
+  const part = parseInt(match[2], 10);
+  const total = parseInt(match[3], 10);
+  if (part < 1 || part > total || total > MAX_FRAGMENTS) return null;
+  return { msgId: match[1], part, total, data: match[4] };
+}
+
+// Binary frames: "OCFB" | header length (uint32 BE) | header JSON | raw chunk bytes.
+// The header is an ordinary message (MAC included) whose payload omits the data.
+const BINARY_MAGIC = Buffer.from('OCFB');
+export const MAX_BINARY_CHUNK_SIZE = 16 * 1024 * 1024; // Largest chunk a binary frame may carry
+
+// Encode a message and its raw data as a binary frame
+export function encodeBinary(msg: OCFTMessage, data: Buffer): Buffer {
+  const header = Buffer.from(serialize(msg));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(header.length);
+  return Buffer.concat([BINARY_MAGIC, length, header, data]);
+}
+
+// Decode a binary frame; null if malformed
+export function decodeBinary(frame: Buffer): { msg: OCFTMessage; data: Buffer } | null {
+  if (frame.length < 8 || !frame.subarray(0, 4).equals(BINARY_MAGIC)) return null;
+  
+  const end = 8 + frame.readUInt32BE(4);
+  if (end > frame.length) return null;
+  
+  const msg = deserialize(frame.subarray(8, end).toString('utf-8'));
+  return msg ? { msg, data: frame.subarray(end) } : null;
+}
@@ -0,0 +1,304 @@
+/**
+ * OCFT - Relay Server
+ * Store-and-forward WebSocket relay for peers that cannot reach each other directly
+ */
+
+import { IncomingMessage } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import { WebSocket, WebSocketServer } from 'ws';
+import { NODE_ID_HEADER, RelayNotice, toBuffer, encodeBinaryFrame, parseBinaryFrame, parseFrame } from './transport.js';
+
+export const DEFAULT_RELAY_PORT = 8766;
+
+export interface RelayOptions {
+  port: number;
+  host?: string;
+  nodes: Record<string, string>; // nodeId -> that node's own token; no other node may connect
+  quota?: number;           // Bytes each node may send per quota window (default: 1GB)
+  quotaWindow?: number;     // Quota window in ms (default: 24 hours)
+  maxQueued?: number;       // Bytes held for each offline node (default: 64MB)
+  maxQueuedTotal?: number;  // Bytes held for all offline nodes together (default: 1GB)
+  queueTTL?: number;        // How long frames wait for an offline node in ms (default: 10 minutes)
+  maxFrameSize?: number;    // Largest frame accepted (default: 17MB, a maximum binary chunk plus header)
+}
+
+// Payload of the 'frame-dropped' event
+export interface DroppedFrame {
+  from: string;
+  to: string;
+  size: number;
+  reason: string;
+}
+
+interface QueuedFrame {
+  from: string;
+  data: Buffer | string;
+  size: number;
+  expiresAt: number;
+}
+
+interface NodeUsage {
+  windowStart: number;
+  bytes: number;
+}
+
+// Sockets that miss a ping for this long are dropped, so a reconnecting node is not locked out
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+const NODE_ID_PATTERN = /^[\w.:@-]{1,128}$/;
+
+// Relay between registered nodes, each authenticating with its own token, so no node can
+// claim another's ID (or the frames held for it). Frames are forwarded as they are: with
+// end-to-end encryption the relay only ever sees ciphertext. The sender ID in every frame
+// is replaced with the authenticated one.
+export class RelayServer extends EventEmitter {
+  private options: Required<Omit<RelayOptions, 'host'>> & Pick<RelayOptions, 'host'>;
+  private server: WebSocketServer | null = null;
+  private nodes: Map<string, WebSocket> = new Map();        // nodeId -> connection
+  private alive: Set<WebSocket> = new Set();                // Answered the last ping
+  private queues: Map<string, QueuedFrame[]> = new Map();   // nodeId -> frames waiting for it
+  private queuedTotal = 0;                                  // Bytes in all queues
+  private usage: Map<string, NodeUsage> = new Map();        // nodeId -> bytes sent this window
+  private heartbeat: NodeJS.Timeout | null = null;
+  
+  private constructor(options: RelayOptions) {
+    super();
+    this.options = {
+      quota: 1024 * 1024 * 1024,
+      quotaWindow: 24 * 60 * 60 * 1000,
+      maxQueued: 64 * 1024 * 1024,
+      maxQueuedTotal: 1024 * 1024 * 1024,
+      queueTTL: 10 * 60 * 1000,
+      maxFrameSize: 17 * 1024 * 1024,
+      ...options
+    };
+  }
+  
+  static async listen(options: RelayOptions): Promise<RelayServer> {
+    const relay = new RelayServer(options);
+    const server = new WebSocketServer({
+      port: options.port,
+      host: options.host,
+      maxPayload: relay.options.maxFrameSize,
+      verifyClient: ({ req }, done) => {
+        const error = relay.checkClient(req);
+        if (error) {
+          done(false, error.status, error.message);
+        } else {
+          done(true);
+        }
+      }
+    });
+    
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+    
+    relay.server = server;
+    server.on('connection', (socket, req) => relay.attach(socket, req.headers[NODE_ID_HEADER] as string));
+    relay.heartbeat = setInterval(() => relay.sweep(), HEARTBEAT_INTERVAL);
+    return relay;
+  }
+  
+  // Port the relay is listening on (useful with port 0)
+  get port(): number | undefined {
+    const address = this.server?.address();
+    return typeof address === 'object' && address ? address.port : undefined;
+  }
+  
+  // Connected node IDs
+  listNodes(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+  
+  async close(): Promise<void> {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    for (const socket of this.nodes.values()) socket.terminate();
+    this.nodes.clear();
+    this.queues.clear();
+    this.queuedTotal = 0;
+    
+    const server = this.server;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+  
+  // Node ID registered and unique, token is that node's own
+  private checkClient(req: IncomingMessage): { status: number; message: string } | null {
+    const nodeId = req.headers[NODE_ID_HEADER];
+    if (typeof nodeId !== 'string' || !NODE_ID_PATTERN.test(nodeId)) {
+      return { status: 400, message: 'Missing or invalid node ID' };
+    }
+    const token = this.tokenFor(nodeId);
+    if (!token || !tokenMatches(req.headers.authorization, token)) {
+      return { status: 401, message: 'Unknown node or invalid token' };
+    }
+    if (this.nodes.has(nodeId)) {
+      return { status: 409, message: 'Node already connected' };
+    }
+    return null;
+  }
+  
+  private attach(socket: WebSocket, nodeId: string): void {
+    this.nodes.set(nodeId, socket);
+    this.alive.add(socket);
+    this.emit('node-connected', nodeId);
+    
+    socket.on('pong', () => this.alive.add(socket));
+    socket.on('message', (data, isBinary) => this.forward(nodeId, toBuffer(data), isBinary));
+    socket.on('error', () => socket.terminate());
+    socket.on('close', () => {
+      this.alive.delete(socket);
+      if (this.nodes.get(nodeId) !== socket) return;
+      this.nodes.delete(nodeId);
+      this.emit('node-disconnected', nodeId);
+    });
+    
+    this.flush(nodeId);
+  }
+  
+  // Deliver a frame now, or hold it until the recipient connects
+  private forward(from: string, data: Buffer, isBinary: boolean): void {
+    const frame = isBinary ? parseBinaryFrame(data) : parseFrame(data.toString());
+    if (!frame) return;
+    
+    const to = frame.to;
+    const size = data.length;
+    if (!this.tokenFor(to)) {
+      this.drop({ from, to, size, reason: `Unknown node ${to}` });
+      return;
+    }
+    if (!this.charge(from, size)) {
+      this.drop({ from, to, size, reason: 'Quota exceeded' });
+      return;
+    }
+    
+    // The relay vouches for the sender: stamp the authenticated ID
+    const out = typeof frame.message === 'string'
+      ? JSON.stringify({ from, to, message: frame.message })
+      : encodeBinaryFrame(from, to, frame.message);
+    
+    const target = this.nodes.get(to);
+    if (target?.readyState === WebSocket.OPEN) {
+      target.send(out);
+      this.emit('frame-forwarded', { from, to, size });
+      return;
+    }
+    
+    const queue = this.queues.get(to) ?? [];
+    const queued = queue.reduce((total, entry) => total + entry.size, 0);
+    if (queued + size > this.options.maxQueued) {
+      this.refund(from, size);
+      this.drop({ from, to, size, reason: `Queue full for ${to}` });
+      return;
+    }
+    if (this.queuedTotal + size > this.options.maxQueuedTotal) {
+      this.refund(from, size);
+      this.drop({ from, to, size, reason: 'Relay queue full' });
+      return;
+    }
+    queue.push({ from, data: out, size, expiresAt: Date.now() + this.options.queueTTL });
+    this.queues.set(to, queue);
+    this.queuedTotal += size;
+    this.emit('frame-queued', { from, to, size });
+  }
+  
+  // Send held frames once their recipient connects
+  private flush(nodeId: string): void {
+    const queue = this.queues.get(nodeId);
+    const socket = this.nodes.get(nodeId);
+    if (!queue || !socket) return;
+    
+    this.queues.delete(nodeId);
+    const now = Date.now();
+    for (const entry of queue) {
+      this.queuedTotal -= entry.size;
+      if (entry.expiresAt > now) {
+        socket.send(entry.data);
+        this.emit('frame-forwarded', { from: entry.from, to: nodeId, size: entry.size });
+      } else {
+        this.drop({ from: entry.from, to: nodeId, size: entry.size, reason: 'Expired' });
+      }
+    }
+  }
+  
+  // Count bytes against the sender's quota; false if they do not fit
+  private charge(nodeId: string, size: number): boolean {
+    const now = Date.now();
+    let usage = this.usage.get(nodeId);
+    if (!usage || now - usage.windowStart >= this.options.quotaWindow) {
+      usage = { windowStart: now, bytes: 0 };
+      this.usage.set(nodeId, usage);
+    }
+    
+    if (usage.bytes + size > this.options.quota) return false;
+    usage.bytes += size;
+    return true;
+  }
+  
+  // Registered token of a node (own properties only: IDs come from clients)
+  private tokenFor(nodeId: string): string | undefined {
+    return Object.hasOwn(this.options.nodes, nodeId) ? this.options.nodes[nodeId] : undefined;
+  }
+  
+  private refund(nodeId: string, size: number): void {
+    const usage = this.usage.get(nodeId);
+    if (usage) usage.bytes = Math.max(0, usage.bytes - size);
+  }
+  
+  // Tell the sender (if connected) why its frame was not delivered
+  private drop(dropped: DroppedFrame): void {
+    const sender = this.nodes.get(dropped.from);
+    if (sender?.readyState === WebSocket.OPEN) {
+      const notice: RelayNotice = { error: dropped.reason, to: dropped.to };
+      sender.send(JSON.stringify(notice));
+    }
+    this.emit('frame-dropped', dropped);
+  }
+  
+  // Ping every node, drop the ones that missed the last ping, expire held frames and quota windows
+  private sweep(): void {
+    for (const socket of this.nodes.values()) {
+      if (!this.alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      this.alive.delete(socket);
+      socket.ping();
+    }
+    
+    const now = Date.now();
+    for (const [nodeId, queue] of this.queues) {
+      const kept: QueuedFrame[] = [];
+      for (const entry of queue) {
+        if (entry.expiresAt > now) {
+          kept.push(entry);
+        } else {
+          this.queuedTotal -= entry.size;
+          this.drop({ from: entry.from, to: nodeId, size: entry.size, reason: 'Expired' });
+        }
+      }
+      if (kept.length) {
+        this.queues.set(nodeId, kept);
+      } else {
+        this.queues.delete(nodeId);
+      }
+    }
+    
+    for (const [nodeId, usage] of this.usage) {
+      if (now - usage.windowStart >= this.options.quotaWindow) this.usage.delete(nodeId);
+    }
+  }
+}
+
+// Constant-time check of a "Bearer <token>" header (hashed so lengths never leak)
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const presented = header?.startsWith('Bearer ') ? header.slice(7) : '';
+  const expected = createHash('sha256').update(token).digest();
+  const actual = createHash('sha256').update(presented).digest();
+  return timingSafeEqual(actual, expected);
+}
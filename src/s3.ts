@@ -0,0 +1,286 @@
+/**
+ * OCFT - S3 Client
+ * Minimal AWS Signature V4 client for S3-compatible storage (used by the Filebase provider)
+ */
+
+import { createReadStream } from 'fs';
+import { createHash, createHmac } from 'crypto';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3Bucket {
+  endpoint: string;           // e.g. https://s3.filebase.com
+  region: string;             // e.g. us-east-1
+  bucket: string;
+  credentials: S3Credentials;
+}
+
+export interface S3UploadOptions {
+  contentType?: string;
+  multipartThreshold?: number; // Use multipart above this size (default: 5GB, the single PUT limit)
+  partSize?: number;           // Multipart part size (default: 64MB, min 5MB)
+}
+
+export const S3_MAX_PUT_SIZE = 5 * 1024 * 1024 * 1024;  // 5GB
+export const S3_MIN_PART_SIZE = 5 * 1024 * 1024;        // 5MB
+const DEFAULT_PART_SIZE = 64 * 1024 * 1024;             // 64MB
+const MAX_PARTS = 10000;
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;  // Extra headers to sign (host and x-amz-date are added)
+  payloadHash: string;              // Hex SHA-256 of the body (or 'UNSIGNED-PAYLOAD')
+}
+
+/**
+ * Sign a request with AWS Signature V4; returns the headers to send (including Authorization)
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: S3Credentials,
+  region: string,
+  service = 's3',
+  now = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');  // 20150830T123600Z
+  const date = amzDate.slice(0, 8);
+  
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'host': request.url.host,
+    'x-amz-date': amzDate,
+  };
+  if (service === 's3') {
+    headers['x-amz-content-sha256'] = request.payloadHash;
+  }
+  
+  // Canonical headers: lowercase names, trimmed values, sorted by name
+  const canonical = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), String(value).trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonical.map(([name]) => name).join(';');
+  
+  const canonicalRequest = [
+    request.method,
+    canonicalPath(request.url.pathname),
+    canonicalQuery(request.url.searchParams),
+    canonical.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+  
+  const scope = `${date}/${region}/${service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  
+  const signingKey = deriveSigningKey(credentials.secretAccessKey, date, region, service);
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  
+  return {
+    ...headers,
+    'authorization': `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * kSigning = HMAC(HMAC(HMAC(HMAC("AWS4" + secret, date), region), service), "aws4_request")
+ */
+export function deriveSigningKey(secretAccessKey: string, date: string, region: string, service: string): Buffer {
+  const kDate = createHmac('sha256', `AWS4${secretAccessKey}`).update(date).digest();
+  const kRegion = createHmac('sha256', kDate).update(region).digest();
+  const kService = createHmac('sha256', kRegion).update(service).digest();
+  return createHmac('sha256', kService).update('aws4_request').digest();
+}
+
+/**
+ * Upload a file with a streaming PUT, or as a multipart upload above the threshold.
+ * Returns the response headers of the final request.
+ */
+export async function uploadObject(
+  bucket: S3Bucket,
+  key: string,
+  filePath: string,
+  size: number,
+  options: S3UploadOptions = {}
+): Promise<Headers> {
+  const threshold = Math.min(options.multipartThreshold ?? S3_MAX_PUT_SIZE, S3_MAX_PUT_SIZE);
+  if (size > threshold) {
+    return uploadMultipart(bucket, key, filePath, size, options);
+  }
+  
+  const response = await s3Fetch(bucket, 'PUT', key, {}, {
+    filePath, start: 0, size,
+    headers: { 'content-type': options.contentType || 'application/octet-stream' },
+  });
+  return response.headers;
+}
+
+/**
+ * Fetch object metadata (e.g. Filebase's x-amz-meta-cid); null if the object does not exist
+ */
+export async function headObject(bucket: S3Bucket, key: string): Promise<Headers | null> {
+  const response = await s3Fetch(bucket, 'HEAD', key, {}, { allowNotFound: true });
+  return response.status === 404 ? null : response.headers;
+}
+
+/**
+ * Delete an object (succeeds if it is already gone)
+ */
+export async function deleteObject(bucket: S3Bucket, key: string): Promise<void> {
+  await s3Fetch(bucket, 'DELETE', key);
+}
+
+/**
+ * Multipart upload: initiate, upload parts, complete (abort on failure)
+ */
+async function uploadMultipart(
+  bucket: S3Bucket,
+  key: string,
+  filePath: string,
+  size: number,
+  options: S3UploadOptions
+): Promise<Headers> {
+  // Grow parts if needed to stay within the part count limit
+  let partSize = Math.max(options.partSize ?? DEFAULT_PART_SIZE, S3_MIN_PART_SIZE);
+  partSize = Math.max(partSize, Math.ceil(size / MAX_PARTS));
+  
+  const initiate = await s3Fetch(bucket, 'POST', key, { uploads: '' }, {
+    headers: { 'content-type': options.contentType || 'application/octet-stream' },
+  });
+  const uploadId = xmlValue(await initiate.text(), 'UploadId');
+  if (!uploadId) {
+    throw new Error('S3 multipart upload: no UploadId in response');
+  }
+  
+  try {
+    const etags: string[] = [];
+    for (let start = 0, part = 1; start < size; start += partSize, part++) {
+      const response = await s3Fetch(bucket, 'PUT', key, { partNumber: String(part), uploadId }, {
+        filePath, start, size: Math.min(partSize, size - start),
+      });
+      const etag = response.headers.get('etag');
+      if (!etag) {
+        throw new Error(`S3 multipart upload: no ETag for part ${part}`);
+      }
+      etags.push(etag);
+    }
+    
+    const body = '<CompleteMultipartUpload>' +
+      etags.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${escapeXml(etag)}</ETag></Part>`).join('') +
+      '</CompleteMultipartUpload>';
+    const complete = await s3Fetch(bucket, 'POST', key, { uploadId }, { body });
+    
+    // S3 may report a failed completion with status 200 and an <Error> body
+    const result = await complete.text();
+    if (result.includes('<Error>')) {
+      throw new Error(`S3 multipart upload failed: ${xmlValue(result, 'Message') || result}`);
+    }
+    return complete.headers;
+  } catch (err) {
+    await s3Fetch(bucket, 'DELETE', key, { uploadId }).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Send one signed request. File bodies are hashed in a first pass, then streamed.
+ */
+async function s3Fetch(
+  bucket: S3Bucket,
+  method: string,
+  key: string,
+  query: Record<string, string> = {},
+  body: {
+    filePath?: string;
+    start?: number;
+    size?: number;
+    body?: string;
+    headers?: Record<string, string>;
+    allowNotFound?: boolean;  // Return 404 responses instead of throwing
+  } = {}
+): Promise<Response> {
+  const url = new URL(`${bucket.endpoint.replace(/\/+$/, '')}/${bucket.bucket}/${encodeKey(key)}`);
+  for (const [name, value] of Object.entries(query)) {
+    url.searchParams.set(name, value);
+  }
+  
+  const headers: Record<string, string> = { ...body.headers };
+  let payload: BodyInit | NodeJS.ReadableStream | undefined;
+  let payloadHash = sha256Hex('');
+  
+  if (body.filePath) {
+    const range = { start: body.start!, end: body.start! + body.size! - 1 };
+    payloadHash = await hashRange(body.filePath, range.start, range.end);
+    payload = body.size! > 0 ? createReadStream(body.filePath, range) : '';
+    headers['content-length'] = String(body.size);
+  } else if (body.body !== undefined) {
+    payloadHash = sha256Hex(body.body);
+    payload = body.body;
+    headers['content-length'] = String(Buffer.byteLength(body.body));
+  }
+  
+  const response = await fetch(url, {
+    method,
+    headers: signRequest({ method, url, headers, payloadHash }, bucket.credentials, bucket.region),
+    body: payload as BodyInit | undefined,
+    duplex: 'half',
+  } as RequestInit);
+  
+  if (!response.ok && !(body.allowNotFound && response.status === 404)) {
+    const error = method === 'HEAD' ? '' : await response.text();
+    throw new Error(`S3 ${method} failed (${response.status}): ${xmlValue(error, 'Message') || error || response.statusText}`);
+  }
+  return response;
+}
+
+async function hashRange(filePath: string, start: number, end: number): Promise<string> {
+  const hash = createHash('sha256');
+  if (end >= start) {
+    for await (const data of createReadStream(filePath, { start, end })) {
+      hash.update(data);
+    }
+  }
+  return hash.digest('hex');
+}
+
+function sha256Hex(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(uriEncode).join('/');
+}
+
+// URL already holds an encoded path: normalize each segment without double-encoding
+function canonicalPath(pathname: string): string {
+  return pathname.split('/').map(segment => uriEncode(decodeURIComponent(segment))).join('/') || '/';
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return Array.from(params.entries())
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1];
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
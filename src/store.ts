@@ -0,0 +1,97 @@
+/**
+ * OCFT - Transfer Store
+ * Persists transfer state so resume survives process restarts
+ */
+
+import { readdir, readFile, writeFile, rename, rm, mkdir, chmod } from 'fs/promises';
+import { createHash } from 'crypto';
+import { homedir } from 'os';
+import { join } from 'path';
+import { TransferInfo } from './protocol.js';
+
+export const DEFAULT_TRANSFERS_DIR = join(homedir(), '.ocft', 'transfers');
+
+// Transfer as persisted (Set serialized as an array)
+export interface StoredTransfer extends Omit<TransferInfo, 'receivedChunks'> {
+  receivedChunks: number[];
+  sourcePath?: string;  // For sender: file being sent
+  partPath?: string;    // For receiver: partially received file
+  ipfsKey?: string;     // For sender: key of an encrypted IPFS upload (base64)
+}
+
+// Pluggable persistence for transfer state
+export interface TransferStore {
+  load(): Promise<StoredTransfer[]>;
+  save(transfer: StoredTransfer): Promise<void>;
+  remove(transferId: string): Promise<void>;
+}
+
+// Convert in-memory transfer to its persisted form
+export function toStoredTransfer(
+  transfer: TransferInfo,
+  local: { sourcePath?: string; partPath?: string; ipfsKey?: string } = {}
+): StoredTransfer {
+  return {
+    ...transfer,
+    receivedChunks: Array.from(transfer.receivedChunks),
+    ...local
+  };
+}
+
+// Convert persisted transfer back to its in-memory form
+export function fromStoredTransfer(stored: StoredTransfer): TransferInfo {
+  const { sourcePath, partPath, ipfsKey, ...transfer } = stored;
+  return {
+    ...transfer,
+    receivedChunks: new Set(stored.receivedChunks)
+  };
+}
+
+// Default store: one JSON file per transfer under ~/.ocft/transfers/
+export class FileTransferStore implements TransferStore {
+  private dir: string;
+  
+  constructor(dir = DEFAULT_TRANSFERS_DIR) {
+    this.dir = dir;
+  }
+  
+  async load(): Promise<StoredTransfer[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return []; // Nothing stored yet
+    }
+    
+    const transfers: StoredTransfer[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        transfers.push(JSON.parse(await readFile(join(this.dir, file), 'utf-8')));
+      } catch {
+        console.error(`Skipping unreadable transfer record: ${file}`);
+      }
+    }
+    return transfers;
+  }
+  
+  // Records can hold IPFS decryption keys: owner-only directory and files
+  async save(transfer: StoredTransfer): Promise<void> {
+    await mkdir(this.dir, { recursive: true, mode: 0o700 });
+    await chmod(this.dir, 0o700); // Directories from older versions were world-readable
+    
+    // Write then rename so a crash never leaves a truncated record
+    const path = this.pathFor(transfer.id);
+    await writeFile(`${path}.tmp`, JSON.stringify(transfer, null, 2), { mode: 0o600 });
+    await rename(`${path}.tmp`, path);
+  }
+  
+  async remove(transferId: string): Promise<void> {
+    await rm(this.pathFor(transferId), { force: true });
+  }
+  
+  // Transfer IDs come from peers: never let them pick the path, and distinct IDs never share one
+  private pathFor(transferId: string): string {
+    return join(this.dir, `${createHash('sha256').update(transferId).digest('hex')}.json`);
+  }
+}
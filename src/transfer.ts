@@ -6,17 +6,44 @@
 import { nanoid } from 'nanoid';
 import { 
   OCFTMessage, MessageType, TransferInfo, TransferState,
-  OfferPayload, AcceptPayload, RejectPayload, ChunkPayload, AckPayload, CompletePayload, ErrorPayload,
-  createMessage, encodeForChat, decodeFromChat, OCFT_PREFIX
+  OfferPayload, IPFSOfferPayload, IPFSCipherParams, IPFSKeyPayload, AcceptPayload, RejectPayload, ChunkPayload, AckPayload, CompletePayload, ErrorPayload,
+  EncryptionParams, BinaryParams, Capability, ManifestEntry, ChunkRef, CompressionAlgorithm, COMPRESSION_ALGORITHMS, createMessage, encodeForChat, splitForChat, maxChunkData, decodeFromChat, parseFragment, encodeBinary, decodeBinary, MAX_BINARY_CHUNK_SIZE, OCFT_PREFIX, OCFT_FRAGMENT_PREFIX,
+  OCFT_VERSION, OCFT_MIN_VERSION, isKnownMajorVersion, isSupportedVersion, negotiateVersion, negotiateCapabilities
 } from './protocol.js';
-import { getFileInfo, readChunk, ChunkAssembler, DEFAULT_CHUNK_SIZE } from './chunker.js';
+import {
+  getFileInfo, readChunk, ChunkAssembler, DEFAULT_CHUNK_SIZE, PART_SUFFIX, compressChunk, isCompressedMimeType
+} from './chunker.js';
+import { IPFSConfig, IPFSUploadResult, shouldUseIPFS, uploadToIPFS, downloadFromIPFS, isValidCID } from './ipfs.js';
+import { CollisionPolicy, sanitizeFilename, resolveDownloadPath } from './paths.js';
+import {
+  getDirectoryInfo, sanitizeManifest, manifestOffsets, entriesCompletedBy, readManifestChunk, extractEntry,
+  BUNDLE_SUFFIX, DIRECTORY_MIME_TYPE
+} from './manifest.js';
+import { TransferStore, FileTransferStore, toStoredTransfer, fromStoredTransfer } from './store.js';
+import { ChunkCache, FileChunkCache } from './cache.js';
+import { getContentChunks, isValidContentLayout, readContentChunk, chunkOffsets, MAX_CONTENT_CHUNKS } from './cdc.js';
+import { PinLedger, FilePinLedger, releasePin } from './pins.js';
+import { FragmentBuffer } from './fragments.js';
+import { Transport } from './transport.js';
+import {
+  computeOfferProof, verifyOfferProof, ReplayCache, DEFAULT_PROOF_WINDOW,
+  deriveMessageKey, computeMessageMac, verifyMessageMac
+} from './auth.js';
+import {
+  KeyPair, ChunkCipher, E2E_SCHEME, FILE_CIPHER_SCHEME, FILE_SEGMENT_SIZE, E2E_OVERHEAD, deriveSessionKey, generateSalt, isValidPublicKey,
+  generateFileKey, deriveKeyWrapKey, encryptFile, decryptFile
+} from './crypto.js';
 import { EventEmitter } from 'events';
+import { open, rename, rm, mkdir, lstat, FileHandle } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 export interface TrustedPeer {
   id: string;
   secret: string;
   name?: string;
   expiresAt?: number;  // TTL: timestamp when this peer's trust expires
+  publicKey?: string;  // Pinned X25519 public key for end-to-end encryption
 }
 
 export interface TransferManagerConfig {
@@ -28,37 +55,200 @@ export interface TransferManagerConfig {
   trustedPeers?: TrustedPeer[];     // Trusted peers with secrets
   maxFileSize?: number;             // Max file size to accept (bytes)
   chunkSize?: number;               // Chunk size
+  binaryChunkSize?: number;         // Chunk size over transports with binary frames (default: 1MB, 0 = never use them)
+  windowSize?: number;              // Max unacknowledged chunks in flight (default: 8)
+  compression?: CompressionAlgorithm; // Compress outgoing chunks (skipped for already-compressed formats)
+  chunking?: 'fixed' | 'content';   // Offer content-defined chunks so receivers can reuse cached ones (default: fixed)
+  chunkCache?: ChunkCache | false;  // Chunks of received content-defined files (default: ~/.ocft/chunks, false = none)
+  store?: TransferStore | false;    // Transfer journal (default: ~/.ocft/transfers, false = in-memory only)
+  keyPair?: KeyPair;                // X25519 key pair for end-to-end encryption
+  encrypt?: boolean;                // Encrypt outgoing transfers (requires keyPair)
+  requireEncryption?: boolean;      // Reject incoming offers that are not encrypted
+  proofWindow?: number;             // Max clock skew/age for offer proofs in ms (default: 5 minutes)
+  legacySecrets?: boolean;          // Also send/accept plaintext secrets (peers predating offer proofs)
+  requireAuth?: boolean;            // Drop messages of transfers without a MAC key (no shared secret or E2E)
+  onCollision?: CollisionPolicy;    // Received file name already exists (default: rename)
+  offerTimeout?: number;            // Wait for accept/reject before re-sending the offer in ms (default: 60s)
+  ackTimeout?: number;              // Wait for a chunk ACK before retransmitting in ms (default: 30s)
+  completeTimeout?: number;         // Wait for the final ACK before re-sending complete in ms (default: 60s)
+  ipfsDownloadTimeout?: number;     // Wait for the receiver's IPFS download to finish in ms (default: 24h)
+  maxRetries?: number;              // Retransmissions before a transfer fails (default: 5)
+  ipfs?: IPFSConfig;                // Upload files above the threshold to IPFS and send an ipfs-offer
+  pins?: PinLedger | false;         // IPFS upload ledger (default: ~/.ocft/pins.json, false = not recorded)
+  autoUnpin?: boolean;              // Unpin IPFS uploads once the receiver confirms the download
+}
+
+// Minimum interval between journal writes for chunk progress (state changes are always saved)
+const PERSIST_INTERVAL = 1000;
+
+// Each retransmission waits this many times longer than the previous one
+const BACKOFF_FACTOR = 2;
+
+// Wait before re-sending a chunk the receiver rejected (grows with BACKOFF_FACTOR per attempt)
+const NACK_DELAY = 1000;
+
+// What a transfer was waiting for when it stalled
+export type StallPhase = 'offer' | 'chunk' | 'complete' | 'idle';
+
+// Payload of the 'transfer-stalled' event
+export interface TransferStall {
+  transfer: TransferInfo;
+  phase: StallPhase;
+  attempt: number;     // Retransmission number (1 = first retry)
+  index?: number;      // Chunk index for 'chunk' stalls
 }
 
 export interface SendMessageFn {
   (to: string, message: string): Promise<void>;
 }
 
+// Largest segment an encrypted IPFS offer may ask us to decrypt at once
+const MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+
+// Binary frames skip Base64 and chat limits, so chunks can be much larger
+const DEFAULT_BINARY_CHUNK_SIZE = 1024 * 1024;
+
+// Chunks do not shrink below this to fit a message limit; they go in fragments instead
+const MIN_FITTED_CHUNK_SIZE = 1024;
+
+function isVersionError(msg: OCFTMessage): boolean {
+  return msg.type === 'error' && (msg.payload as ErrorPayload).code === 'UNSUPPORTED_VERSION';
+}
+
+// Offered binary layout must cover exactly the announced file size
+function isValidBinaryParams(params: BinaryParams, size: number): boolean {
+  if (!Number.isSafeInteger(params.chunkSize) || params.chunkSize <= 0 || params.chunkSize > MAX_BINARY_CHUNK_SIZE) return false;
+  if (params.relay !== undefined && typeof params.relay !== 'string') return false;
+  return params.totalChunks === Math.ceil(size / params.chunkSize);
+}
+
+// Compression algorithm a chunked offer asks for (unknown ones are ignored: chunks go uncompressed)
+function getOfferedCompression(msg: OCFTMessage): CompressionAlgorithm | undefined {
+  const compression = msg.type === 'offer' ? (msg.payload as OfferPayload).compression : undefined;
+  return compression && COMPRESSION_ALGORITHMS.includes(compression) ? compression : undefined;
+}
+
+// Offered gateway links must be HTTP(S); encrypted uploads must use a cipher we know
+function isValidIPFSOffer(payload: IPFSOfferPayload): boolean {
+  if (!isValidCID(payload.cid)) return false;
+  
+  const cipher = payload.cipher;
+  if (cipher) {
+    if (cipher.scheme !== FILE_CIPHER_SCHEME || !/^[0-9a-f]{64}$/.test(cipher.hash)) return false;
+    if (!Number.isSafeInteger(cipher.segmentSize) || cipher.segmentSize <= 0 || cipher.segmentSize > MAX_SEGMENT_SIZE) return false;
+    if (cipher.size !== payload.size + Math.ceil(payload.size / cipher.segmentSize) * E2E_OVERHEAD) return false;
+  }
+  
+  try {
+    const url = new URL(payload.url);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
 export class TransferManager extends EventEmitter {
   private config: TransferManagerConfig;
   private transfers: Map<string, TransferInfo> = new Map();
   private assemblers: Map<string, ChunkAssembler> = new Map();
   private sendMessage: SendMessageFn;
+  private transport: Transport | null = null;
   private filePaths: Map<string, string> = new Map(); // transferId -> local file path
+  private fileHandles: Map<string, Promise<FileHandle>> = new Map(); // transferId -> open handle for chunk reads
+  private sendQueues: Map<string, number[]> = new Map(); // transferId -> chunk indices waiting to be sent
+  private inFlight: Map<string, Set<number>> = new Map(); // transferId -> chunks sent but not yet acked
+  private ciphers: Map<string, ChunkCipher> = new Map(); // transferId -> session cipher (encrypted transfers)
+  private messageKeys: Map<string, Buffer> = new Map(); // transferId -> MAC key
+  private replayCache: ReplayCache;
+  private store: TransferStore | null;
+  private chunkCache: ChunkCache | null;
+  private pins: PinLedger | null;
+  private persistedAt: Map<string, number> = new Map(); // transferId -> last journal write
+  private unpersisted: Set<string> = new Set();          // Transfers with progress the throttle held back
+  private timers: Map<string, NodeJS.Timeout> = new Map(); // "transferId:phase[:index]" -> retransmission timer
+  private attempts: Map<string, number> = new Map();      // Same keys -> retransmissions so far
+  private downloads: Map<string, Promise<void>> = new Map(); // transferId -> running IPFS download
+  private ipfsKeys: Map<string, Buffer> = new Map(); // transferId -> key of an encrypted IPFS upload
+  private binaryOffers: Map<string, BinaryParams> = new Map(); // transferId -> binary layout the sender offered
+  private contentOffers: Map<string, ChunkRef[]> = new Map(); // transferId -> content-defined layout the sender offered
+  private extracted: Map<string, Set<number>> = new Map(); // transferId -> manifest entries already written out
+  private fragments = new FragmentBuffer();              // Parts of messages split to fit the channel
+  readonly ready: Promise<void>;                         // Resolves once stored transfers are loaded
   
-  constructor(config: TransferManagerConfig, sendMessage: SendMessageFn) {
+  // Pass a Transport to have incoming messages handled automatically, or a SendMessageFn
+  // and feed incoming messages to handleMessage() yourself
+  constructor(config: TransferManagerConfig, transport: SendMessageFn | Transport) {
     super();
     this.config = {
       autoAccept: false,
       trustedPeers: [],
       maxFileSize: 100 * 1024 * 1024, // 100MB default
       chunkSize: DEFAULT_CHUNK_SIZE,
+      binaryChunkSize: DEFAULT_BINARY_CHUNK_SIZE,
+      windowSize: 8,
+      proofWindow: DEFAULT_PROOF_WINDOW,
+      legacySecrets: false,
+      onCollision: 'rename',
+      offerTimeout: 60 * 1000,
+      ackTimeout: 30 * 1000,
+      completeTimeout: 60 * 1000,
+      ipfsDownloadTimeout: 24 * 60 * 60 * 1000,
+      maxRetries: 5,
       ...config
     };
-    this.sendMessage = sendMessage;
+    if (typeof transport === 'function') {
+      this.sendMessage = transport;
+    } else {
+      this.transport = transport;
+      this.sendMessage = (to, message) => transport.send(to, message);
+      transport.onMessage(async (from, message) => {
+        await this.handleMessage(from, message);
+      });
+      transport.onBinary?.(async (from, data) => {
+        await this.handleBinaryMessage(from, data);
+      });
+    }
+    this.replayCache = new ReplayCache(this.config.proofWindow);
+    this.store = this.config.store === false ? null : this.config.store ?? new FileTransferStore();
+    this.pins = this.config.pins === false ? null : this.config.pins ?? new FilePinLedger();
+    this.chunkCache = this.config.chunkCache === false ? null : this.config.chunkCache ?? new FileChunkCache();
+    this.ready = this.restoreTransfers();
   }
   
   // ============ PUBLIC API ============
   
   // Start sending a file to a peer
   async sendFile(peerId: string, filePath: string): Promise<string> {
+    await this.ready;
+    if (this.config.encrypt && !this.config.keyPair) {
+      throw new Error('Encryption enabled but no key pair configured');
+    }
+    
     const fileInfo = await getFileInfo(filePath, this.config.chunkSize);
     const transferId = `xfer_${nanoid(12)}`;
+    const chunkSize = this.fitChunkSize(transferId, peerId, fileInfo.chunkSize, fileInfo.size);
+    
+    // Large files go through IPFS. Anyone with the CID can read the upload, so E2E transfers
+    // only use it when the file is encrypted first and the key can reach the peer sealed.
+    const ipfsConfig = this.config.ipfs;
+    const sealable = !!this.config.encrypt || !!this.getPeerSecret(peerId);
+    const useIPFS = !!ipfsConfig && shouldUseIPFS(fileInfo.size, ipfsConfig.threshold) &&
+      (ipfsConfig.encrypt ? sealable : !this.config.encrypt);
+    
+    let ipfs: IPFSUploadResult | undefined;
+    let cipher: IPFSCipherParams | undefined;
+    if (useIPFS && ipfsConfig.encrypt) {
+      ({ result: ipfs, cipher } = await this.uploadEncryptedIPFS(transferId, filePath));
+    } else if (useIPFS) {
+      ipfs = await uploadToIPFS(filePath, ipfsConfig);
+    }
+    
+    // Content-defined chunks, unless the offer would have to list too many of them
+    let chunks: ChunkRef[] | undefined;
+    if (this.config.chunking === 'content' && !ipfs && fileInfo.size > 0) {
+      chunks = await getContentChunks(filePath, chunkSize);
+      if (chunks.length > MAX_CONTENT_CHUNKS) chunks = undefined;
+    }
     
     const transfer: TransferInfo = {
       id: transferId,
@@ -69,64 +259,195 @@ export class TransferManager extends EventEmitter {
       size: fileInfo.size,
       mimeType: fileInfo.mimeType,
       hash: fileInfo.hash,
-      chunkSize: fileInfo.chunkSize,
-      totalChunks: fileInfo.totalChunks,
+      chunkSize: ipfs ? 0 : chunkSize,
+      totalChunks: ipfs ? 0 : Math.ceil(fileInfo.size / chunkSize),
       receivedChunks: new Set(),
       startedAt: Date.now(),
       updatedAt: Date.now(),
-      localPath: filePath
+      localPath: filePath,
+      resumable: true,
+      secretAuth: !!this.getPeerSecret(peerId),
+      encryption: this.config.encrypt ? { salt: generateSalt() } : undefined,
+      ipfs: ipfs ? { cid: ipfs.cid, url: ipfs.url, cipher } : undefined,
+      chunks
     };
     
     this.transfers.set(transferId, transfer);
     this.filePaths.set(transferId, filePath);
+    await this.persist(transfer);
+    if (ipfs) {
+      await this.recordPin(transfer, ipfs);
+      this.emit('ipfs-uploaded', { transfer, result: ipfs });
+    }
     
-    // Send offer
-    const offer = createMessage<OfferPayload>('offer', transferId, this.config.botId, peerId, {
-      filename: fileInfo.filename,
-      size: fileInfo.size,
-      mimeType: fileInfo.mimeType,
-      hash: fileInfo.hash,
-      chunkSize: fileInfo.chunkSize,
-      totalChunks: fileInfo.totalChunks,
-      secret: this.getPeerSecret(peerId),  // Include peer's secret for auto-accept
-      secretTTL: this.config.secretTTL ? Date.now() + this.config.secretTTL : undefined
-    });
+    await this.offerTransfer(transfer);
+    return transferId;
+  }
+  
+  // Send a directory tree as one transfer: the offer lists every file, the data is the files
+  // concatenated in that order. Files are recreated under the receiver's download directory.
+  async sendDirectory(peerId: string, dirPath: string): Promise<string> {
+    await this.ready;
+    if (this.config.encrypt && !this.config.keyPair) {
+      throw new Error('Encryption enabled but no key pair configured');
+    }
     
-    await this.send(peerId, offer);
-    this.emit('offer-sent', transfer);
+    const dir = await getDirectoryInfo(dirPath);
+    const transferId = `xfer_${nanoid(12)}`;
+    const chunkSize = this.fitChunkSize(transferId, peerId, this.config.chunkSize || DEFAULT_CHUNK_SIZE, dir.size);
     
+    const transfer: TransferInfo = {
+      id: transferId,
+      direction: 'send',
+      state: 'pending',
+      peerId,
+      filename: dir.name,
+      size: dir.size,
+      mimeType: DIRECTORY_MIME_TYPE,
+      hash: dir.hash,
+      chunkSize,
+      totalChunks: Math.ceil(dir.size / chunkSize),
+      receivedChunks: new Set(),
+      startedAt: Date.now(),
+      updatedAt: Date.now(),
+      localPath: dirPath,
+      resumable: true,
+      secretAuth: !!this.getPeerSecret(peerId),
+      encryption: this.config.encrypt ? { salt: generateSalt() } : undefined,
+      manifest: dir.entries
+    };
+    
+    this.transfers.set(transferId, transfer);
+    this.filePaths.set(transferId, dirPath);
+    await this.persist(transfer);
+    await this.offerTransfer(transfer);
     return transferId;
   }
   
   // Accept a pending transfer
-  async acceptTransfer(transferId: string, resumeFrom?: number): Promise<void> {
+  async acceptTransfer(transferId: string, resumeFrom?: number, missingChunks?: number[]): Promise<void> {
+    await this.ready;
     const transfer = this.transfers.get(transferId);
     if (!transfer || transfer.direction !== 'receive' || transfer.state !== 'pending') {
       throw new Error('Invalid transfer or already processed');
     }
     
+    // Pick a safe output path (kept across resumes)
+    if (!transfer.localPath) {
+      const reserved = new Set(this.listTransfers()
+        .filter(t => t.direction === 'receive' && t.localPath && t.state !== 'completed' && t.state !== 'rejected')
+        .map(t => t.localPath!));
+      const target = resolveDownloadPath(this.config.downloadDir, transfer.filename, this.config.onCollision, reserved);
+      if (!target) {
+        await this.rejectTransfer(transferId, `File already exists: ${transfer.filename}`);
+        return;
+      }
+      transfer.localPath = target.path;
+      transfer.collision = target.collision;
+    }
+    
+    // Directory transfer: files are extracted into localPath as they complete
+    if (transfer.manifest) {
+      try {
+        await this.prepareDirectory(transfer);
+      } catch (err) {
+        await this.rejectTransfer(transferId, `Cannot create directory: ${(err as Error).message}`);
+        return;
+      }
+    }
+    
+    this.clearTimer(transferId, 'offer');
     transfer.state = 'accepted';
     transfer.updatedAt = Date.now();
     transfer.resumable = true;
     
-    // Create assembler
-    const outputPath = `${this.config.downloadDir}/${transfer.filename}`;
-    transfer.localPath = outputPath;
-    const assembler = new ChunkAssembler(outputPath, transfer.hash, transfer.totalChunks);
-    this.assemblers.set(transferId, assembler);
+    // Largest text chunk our channel carries
+    const fit = this.getChunkFit(transferId, transfer.peerId, this.config.botId, !!transfer.encryption, transfer.size);
+    
+    // Content-defined layout: preferred over the binary one and, once taken, kept for good
+    const content = this.contentOffers.get(transferId);
+    this.contentOffers.delete(transferId);
+    if (content && !transfer.contentDefined && this.hasCapability(transfer, 'dedup') && transfer.receivedChunks.size === 0 &&
+        Math.max(...content.map(chunk => chunk.size)) <= fit) {
+      transfer.contentDefined = true;
+      transfer.chunks = content;
+      transfer.chunkSize = Math.max(...content.map(chunk => chunk.size));
+      transfer.totalChunks = content.length;
+      await this.assemblers.get(transferId)?.close();
+      this.assemblers.delete(transferId);
+      resumeFrom = undefined;
+      missingChunks = undefined;
+    }
+    
+    // Binary frames: take the offered layout, which can only change while nothing is received.
+    // Relayed frames only reach us through the relay we are connected to.
+    const binary = this.binaryOffers.get(transferId);
+    this.binaryOffers.delete(transferId);
+    const sameLayout = binary?.chunkSize === transfer.chunkSize && binary.totalChunks === transfer.totalChunks;
+    transfer.binary = !!binary && !transfer.contentDefined && this.hasCapability(transfer, 'binary') && this.supportsBinary() &&
+      binary.relay === this.transport?.relay && (sameLayout || transfer.receivedChunks.size === 0);
+    if (binary && transfer.binary && !sameLayout) {
+      transfer.chunkSize = binary.chunkSize;
+      transfer.totalChunks = binary.totalChunks;
+      await this.assemblers.get(transferId)?.close();
+      this.assemblers.delete(transferId);
+      resumeFrom = undefined;
+      missingChunks = undefined;
+    }
+    
+    // Text chunks too large for our channel: ask for smaller ones (only while nothing is received)
+    const resizable = !transfer.ipfs && !transfer.binary && !transfer.contentDefined && this.hasCapability(transfer, 'resize');
+    if (resizable && transfer.chunkSize > fit && transfer.receivedChunks.size === 0) {
+      transfer.chunkSize = fit;
+      transfer.totalChunks = Math.ceil(transfer.size / fit);
+      await this.assemblers.get(transferId)?.close();
+      this.assemblers.delete(transferId);
+      resumeFrom = undefined;
+      missingChunks = undefined;
+    }
+    
+    // Create assembler (kept across resumes so received chunks are not lost)
+    if (!transfer.ipfs && !this.assemblers.has(transferId)) {
+      this.assemblers.set(transferId, this.createAssembler(transfer));
+    }
+    
+    // Chunks we have cached need not be sent
+    const cached = transfer.contentDefined ? await this.fillFromCache(transfer) : [];
+    if (cached.length && missingChunks) {
+      missingChunks = missingChunks.filter(i => !transfer.receivedChunks.has(i));
+      resumeFrom = missingChunks[0] ?? transfer.totalChunks;
+    }
     
     // Send accept (with optional resume point)
     const accept = createMessage<AcceptPayload>('accept', transferId, this.config.botId, transfer.peerId, {
       ready: true,
-      resumeFrom: resumeFrom
+      resumeFrom: resumeFrom,
+      missingChunks,
+      encryption: this.getEncryptionParams(transfer),
+      binary: transfer.binary || undefined,
+      compression: transfer.compression,
+      contentDefined: transfer.contentDefined || undefined,
+      cached: cached.length ? cached : undefined,
+      chunkSize: resizable ? transfer.chunkSize : undefined,
+      version: transfer.version,
+      capabilities: transfer.capabilities
     });
     
+    await this.persist(transfer);
     await this.send(transfer.peerId, accept);
     this.emit('transfer-accepted', transfer);
+    
+    // Encrypted IPFS uploads wait for the sender's ipfs-key
+    if (transfer.ipfs && (!transfer.ipfs.cipher || this.ipfsKeys.has(transferId))) {
+      this.startIPFSDownload(transfer);
+    } else {
+      this.watchIdle(transfer);
+    }
   }
   
   // Reject a pending transfer
   async rejectTransfer(transferId: string, reason: string): Promise<void> {
+    await this.ready;
     const transfer = this.transfers.get(transferId);
     if (!transfer || transfer.direction !== 'receive' || transfer.state !== 'pending') {
       throw new Error('Invalid transfer or already processed');
@@ -135,11 +456,13 @@ export class TransferManager extends EventEmitter {
     transfer.state = 'rejected';
     transfer.updatedAt = Date.now();
     transfer.error = reason;
+    this.clearTimers(transferId);
     
     const reject = createMessage<RejectPayload>('reject', transferId, this.config.botId, transfer.peerId, {
       reason
     });
     
+    await this.persist(transfer);
     await this.send(transfer.peerId, reject);
     this.emit('transfer-rejected', transfer);
   }
@@ -154,18 +477,60 @@ export class TransferManager extends EventEmitter {
     return Array.from(this.transfers.values());
   }
   
+  // Stop all timers, flush held-back progress and close open files (transfers stay resumable)
+  async close(): Promise<void> {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.attempts.clear();
+    for (const transferId of Array.from(this.unpersisted)) {
+      const transfer = this.transfers.get(transferId);
+      if (transfer) await this.persist(transfer);
+    }
+    this.unpersisted.clear();
+    for (const transferId of Array.from(this.fileHandles.keys())) {
+      await this.releaseFile(transferId);
+    }
+    for (const assembler of this.assemblers.values()) {
+      await assembler.close();
+    }
+  }
+  
   // ============ MESSAGE HANDLING ============
   
   // Process incoming message (call this when receiving a message)
   async handleMessage(fromId: string, text: string): Promise<boolean> {
+    // Part of a message too long for the channel: handled once every part is in
+    if (text.startsWith(OCFT_FRAGMENT_PREFIX)) {
+      const fragment = parseFragment(text);
+      if (!fragment) return false;
+      const whole = this.fragments.add(fromId, fragment);
+      if (!whole) return true;
+      text = whole;
+    }
     if (!text.startsWith(OCFT_PREFIX)) return false;
+    await this.ready;
     
     const msg = decodeFromChat(text);
     if (!msg) return false;
     if (msg.to !== this.config.botId) return false;
     
+    // Another major version may mean anything: tell the peer instead of guessing.
+    // Our transfers all negotiated a version, so such messages for them are forged.
+    if (!isKnownMajorVersion(msg.version)) {
+      if (this.transfers.has(msg.transferId)) {
+        this.securityWarning(msg, `Unsupported protocol version ${msg.version}`);
+      } else {
+        await this.sendVersionError(msg, `Unsupported protocol version ${msg.version}`);
+      }
+      return true;
+    }
+    
+    // Drop anything that cannot be authenticated (still an OCFT message, so handled)
+    if (!this.verifyMessage(fromId, msg)) return true;
+    
     switch (msg.type) {
       case 'offer':
+      case 'ipfs-offer':
         await this.handleOffer(msg);
         break;
       case 'accept':
@@ -180,6 +545,9 @@ export class TransferManager extends EventEmitter {
       case 'ack':
         await this.handleAck(msg);
         break;
+      case 'ipfs-key':
+        await this.handleIPFSKey(msg);
+        break;
       case 'complete':
         await this.handleComplete(msg);
         break;
@@ -191,10 +559,55 @@ export class TransferManager extends EventEmitter {
     return true;
   }
   
+  // Process an incoming binary frame: a chunk message with its raw data appended
+  async handleBinaryMessage(fromId: string, frame: Buffer): Promise<boolean> {
+    await this.ready;
+    
+    const decoded = decodeBinary(frame);
+    if (!decoded || decoded.msg.type !== 'chunk' || decoded.msg.to !== this.config.botId) return false;
+    if (!isKnownMajorVersion(decoded.msg.version)) return true;
+    if (!this.verifyMessage(fromId, decoded.msg)) return true;
+    
+    // Only transfers that negotiated binary frames take them
+    if (this.transfers.get(decoded.msg.transferId)?.binary) {
+      await this.handleChunk(decoded.msg, decoded.data);
+    }
+    return true;
+  }
+  
   // ============ HANDLERS ============
   
   private async handleOffer(msg: OCFTMessage): Promise<void> {
-    const payload = msg.payload as OfferPayload;
+    const payload = msg.payload as OfferPayload | IPFSOfferPayload;
+    const chunked = msg.type === 'offer' ? msg.payload as OfferPayload : undefined;
+    const ipfs = msg.type === 'ipfs-offer' ? msg.payload as IPFSOfferPayload : undefined;
+    
+    // Replayed offers are dropped before they can touch any state
+    const authorized = this.checkOfferAuth(msg);
+    if (authorized === null) {
+      this.securityWarning(msg, 'Replayed offer');
+      return;
+    }
+    
+    // A proof we cannot verify means the sender keys its MACs with a secret we do not share
+    if (payload.proof && !authorized) {
+      const reject = createMessage<RejectPayload>('reject', msg.transferId, this.config.botId, msg.from, {
+        reason: 'Invalid or expired secret proof'
+      });
+      await this.send(msg.from, reject);
+      return;
+    }
+    
+    // Offers with a valid proof must also carry a valid MAC
+    if (authorized && payload.proof) {
+      if (!verifyMessageMac(deriveMessageKey(this.config.secret, msg.transferId), msg)) {
+        this.securityWarning(msg, 'Invalid MAC on offer');
+        return;
+      }
+    } else if (this.config.requireAuth) {
+      this.securityWarning(msg, 'Unauthenticated offer');
+      return;
+    }
     
     // Check file size limit
     if (payload.size > (this.config.maxFileSize || Infinity)) {
@@ -205,54 +618,291 @@ export class TransferManager extends EventEmitter {
       return;
     }
     
+    // Only fetch content addressed by a plain CID over HTTP(S)
+    if (ipfs && !isValidIPFSOffer(ipfs)) {
+      const reject = createMessage<RejectPayload>('reject', msg.transferId, this.config.botId, msg.from, {
+        reason: 'Invalid IPFS offer'
+      });
+      await this.send(msg.from, reject);
+      return;
+    }
+    
+    // An encrypted upload is useless unless its key can reach us sealed
+    if (ipfs?.cipher && !authorized && !ipfs.encryption) {
+      const reject = createMessage<RejectPayload>('reject', msg.transferId, this.config.botId, msg.from, {
+        reason: 'Encrypted IPFS offer needs a shared secret or end-to-end encryption'
+      });
+      await this.send(msg.from, reject);
+      return;
+    }
+    
+    // Directory transfers: every path must stay inside the target directory
+    const manifest = chunked?.manifest !== undefined ? sanitizeManifest(chunked.manifest, payload.size) : undefined;
+    if (manifest === null) {
+      const reject = createMessage<RejectPayload>('reject', msg.transferId, this.config.botId, msg.from, {
+        reason: 'Invalid manifest'
+      });
+      await this.send(msg.from, reject);
+      return;
+    }
+    
+    // Check end-to-end encryption request against our policy
+    const encryptionError = this.checkOfferEncryption(msg.from, payload.encryption);
+    if (encryptionError) {
+      const reject = createMessage<RejectPayload>('reject', msg.transferId, this.config.botId, msg.from, {
+        reason: encryptionError
+      });
+      await this.send(msg.from, reject);
+      return;
+    }
+    
+    // Offer for a transfer we already know: treat it as a resume
+    const existing = this.transfers.get(msg.transferId);
+    if (existing) {
+      await this.handleResumeOffer(existing, msg, authorized);
+      return;
+    }
+    
+    // Newest version both sides speak; offers without a range predate negotiation (1.0)
+    const version = payload.versions ? negotiateVersion(payload.versions) : OCFT_MIN_VERSION;
+    if (!version) {
+      await this.sendVersionError(msg, 'No common protocol version');
+      return;
+    }
+    
     const transfer: TransferInfo = {
       id: msg.transferId,
       direction: 'receive',
       state: 'pending',
       peerId: msg.from,
-      filename: payload.filename,
+      filename: sanitizeFilename(payload.filename),
       size: payload.size,
       mimeType: payload.mimeType,
       hash: payload.hash,
-      chunkSize: payload.chunkSize,
-      totalChunks: payload.totalChunks,
+      chunkSize: chunked?.chunkSize ?? 0,
+      totalChunks: chunked?.totalChunks ?? 0,
       receivedChunks: new Set(),
       startedAt: Date.now(),
-      updatedAt: Date.now()
+      updatedAt: Date.now(),
+      secretAuth: !!payload.proof,
+      encryption: payload.encryption
+        ? { salt: payload.encryption.salt!, peerPublicKey: payload.encryption.publicKey }
+        : undefined,
+      ipfs: ipfs ? { cid: ipfs.cid, url: ipfs.url, cipher: ipfs.cipher } : undefined,
+      compression: getOfferedCompression(msg),
+      version,
+      capabilities: payload.capabilities ? negotiateCapabilities(payload.capabilities, this.getCapabilities()) : undefined,
+      manifest
     };
     
     this.transfers.set(msg.transferId, transfer);
+    this.rememberBinaryOffer(msg);
+    this.rememberContentOffer(msg);
+    await this.persist(transfer);
+    this.watchPendingOffer(transfer);
     this.emit('offer-received', transfer);
     
-    // Auto-accept if sender knows our secret (with TTL check)
-    if (this.isValidSecret(payload.secret, payload.secretTTL)) {
-      await this.acceptTransfer(msg.transferId, payload.resumeFrom);
+    if (this.shouldAutoAccept(msg, authorized)) {
+      await this.acceptTransfer(msg.transferId, chunked?.resumeFrom);
+    }
+  }
+  
+  // Re-offer of a known transfer (sender resumed, possibly after a restart)
+  private async handleResumeOffer(transfer: TransferInfo, msg: OCFTMessage, authorized: boolean): Promise<void> {
+    const payload = msg.payload as OfferPayload & Partial<IPFSOfferPayload>;
+    if (transfer.direction !== 'receive' || transfer.peerId !== msg.from || transfer.hash !== payload.hash) return;
+    if (transfer.encryption?.peerPublicKey !== payload.encryption?.publicKey) return;
+    if (transfer.ipfs?.cid !== payload.cid) return;
+    if (transfer.secretAuth && !payload.proof) {
+      this.securityWarning(msg, 'Unauthenticated resume of an authenticated transfer');
       return;
     }
+    this.rememberBinaryOffer(msg);
+    this.rememberContentOffer(msg);
+    transfer.compression = getOfferedCompression(msg);
+    
+    if (transfer.state === 'completed' || transfer.state === 'rejected') {
+      const reject = createMessage<RejectPayload>('reject', msg.transferId, this.config.botId, msg.from, {
+        reason: transfer.state === 'completed' ? 'Transfer already completed' : transfer.error || 'Rejected'
+      });
+      await this.send(msg.from, reject);
+      return;
+    }
+    
+    // Retransmitted offer while the user is still deciding
+    if (transfer.state === 'pending') {
+      this.watchPendingOffer(transfer);
+      return;
+    }
+    
+    // Our accept was lost: accept again without asking a second time
+    if (transfer.state === 'accepted' || transfer.state === 'transferring') {
+      const missing = this.getMissingChunks(transfer);
+      transfer.state = 'pending';
+      await this.acceptTransfer(msg.transferId, missing[0] ?? transfer.totalChunks, missing);
+      return;
+    }
+    
+    transfer.state = 'pending';
+    transfer.updatedAt = Date.now();
+    await this.persist(transfer);
+    this.watchPendingOffer(transfer);
+    this.emit('transfer-resumed', transfer);
+    
+    if (this.shouldAutoAccept(msg, authorized)) {
+      const missing = this.getMissingChunks(transfer);
+      await this.acceptTransfer(msg.transferId, missing[0] ?? transfer.totalChunks, missing);
+    }
+  }
+  
+  // Keep a valid binary layout from an offer until the transfer is accepted
+  private rememberBinaryOffer(msg: OCFTMessage): void {
+    const payload = msg.payload as OfferPayload;
+    if (msg.type === 'offer' && payload.binary && isValidBinaryParams(payload.binary, payload.size)) {
+      this.binaryOffers.set(msg.transferId, payload.binary);
+    } else {
+      this.binaryOffers.delete(msg.transferId);
+    }
+  }
+  
+  // Keep a valid content-defined layout from an offer until the transfer is accepted
+  private rememberContentOffer(msg: OCFTMessage): void {
+    const payload = msg.payload as OfferPayload;
+    if (msg.type === 'offer' && isValidContentLayout(payload.chunks, payload.size, payload.chunkSize)) {
+      this.contentOffers.set(msg.transferId, payload.chunks);
+    } else {
+      this.contentOffers.delete(msg.transferId);
+    }
+  }
+  
+  // Auto-accept if sender proved it knows our secret or is a trusted peer
+  private shouldAutoAccept(msg: OCFTMessage, authorized: boolean): boolean {
+    if (authorized) return true;
     
-    // Auto-accept if peer is in trusted list (legacy) with valid trust
+    // Peer is in trusted list (legacy) with valid trust
     if (this.config.autoAccept) {
       const trustedPeer = this.config.trustedPeers?.find(p => p.id === msg.from);
-      if (trustedPeer && this.isPeerTrustValid(trustedPeer)) {
-        await this.acceptTransfer(msg.transferId, payload.resumeFrom);
-      }
+      if (trustedPeer && this.isPeerTrustValid(trustedPeer)) return true;
     }
+    
+    return false;
   }
   
   private async handleAccept(msg: OCFTMessage): Promise<void> {
     const transfer = this.transfers.get(msg.transferId);
-    if (!transfer || transfer.direction !== 'send') return;
+    if (!transfer || transfer.direction !== 'send' || transfer.state === 'completed') return;
+    
+    const payload = msg.payload as AcceptPayload;
+    this.clearTimers(msg.transferId);
+    
+    // Receiver picks from our range; accepts without a version predate negotiation (1.0)
+    const version = payload.version ?? OCFT_MIN_VERSION;
+    if (typeof version !== 'string' || !isSupportedVersion(version)) {
+      await this.failTransfer(transfer, 'UNSUPPORTED_VERSION', `Peer picked unsupported protocol version ${version}`);
+      return;
+    }
+    transfer.version = version;
+    transfer.capabilities = payload.capabilities
+      ? negotiateCapabilities(payload.capabilities, this.getCapabilities())
+      : undefined;
+    
+    if (transfer.manifest && !this.hasCapability(transfer, 'manifest')) {
+      await this.failTransfer(transfer, 'UNSUPPORTED', 'Peer does not support directory transfers');
+      return;
+    }
+    
+    // Encrypted transfer: complete key agreement with the receiver's public key
+    if (transfer.encryption) {
+      const peerKey = payload.encryption?.publicKey;
+      const pinnedKey = this.getPeerPublicKey(transfer.peerId);
+      const valid = payload.encryption?.scheme === E2E_SCHEME && !!peerKey && isValidPublicKey(peerKey) &&
+        (!pinnedKey || pinnedKey === peerKey) &&
+        (!transfer.encryption.peerPublicKey || transfer.encryption.peerPublicKey === peerKey);
+      
+      if (!valid) {
+        await this.failTransfer(transfer, 'ENCRYPTION_FAILED', 'Peer did not complete the encryption handshake');
+        return;
+      }
+      transfer.encryption.peerPublicKey = peerKey;
+    }
+    
+    // IPFS transfer: the receiver fetches the file itself and reports with the final ack
+    if (transfer.ipfs) {
+      transfer.state = 'completing';
+      transfer.updatedAt = Date.now();
+      await this.persist(transfer);
+      this.emit('transfer-started', transfer);
+      if (transfer.ipfs.cipher) await this.sendIPFSKey(transfer);
+      this.watchComplete(transfer);
+      return;
+    }
+    
+    // Receiver took the content-defined layout we offered (kept from then on)
+    if (payload.contentDefined && transfer.chunks && this.hasCapability(transfer, 'dedup')) {
+      transfer.contentDefined = true;
+    }
+    
+    // Receiver took the binary layout we offered (unchanged once chunks were acknowledged)
+    const binary = payload.binary && this.hasCapability(transfer, 'binary') ? this.getBinaryParams(transfer) : undefined;
+    if (transfer.contentDefined) {
+      transfer.chunkSize = Math.max(...transfer.chunks!.map(chunk => chunk.size));
+      transfer.totalChunks = transfer.chunks!.length;
+    } else if (binary) {
+      transfer.chunkSize = binary.chunkSize;
+      transfer.totalChunks = binary.totalChunks;
+    }
+    transfer.binary = !!binary && !transfer.contentDefined;
+    
+    // Receiver asked for smaller text chunks (the layout is fixed once chunks were acknowledged)
+    if (payload.chunkSize !== undefined && !transfer.binary && !transfer.contentDefined && this.hasCapability(transfer, 'resize')) {
+      const chunkSize = payload.chunkSize;
+      const valid = Number.isSafeInteger(chunkSize) && chunkSize > 0 && chunkSize <= transfer.chunkSize &&
+        (chunkSize === transfer.chunkSize || transfer.receivedChunks.size === 0);
+      if (!valid) {
+        await this.failTransfer(transfer, 'INVALID_CHUNK_SIZE', `Peer asked for an invalid chunk size: ${chunkSize}`);
+        return;
+      }
+      transfer.chunkSize = chunkSize;
+      transfer.totalChunks = Math.ceil(transfer.size / chunkSize);
+    }
+    
+    // Chunks the receiver has cached count as delivered
+    if (transfer.contentDefined && Array.isArray(payload.cached) && payload.cached.length) {
+      const cached = new Set(payload.cached);
+      const before = transfer.receivedChunks.size;
+      transfer.chunks!.forEach((chunk, i) => {
+        if (cached.has(chunk.hash)) transfer.receivedChunks.add(i);
+      });
+      const count = transfer.receivedChunks.size - before;
+      if (count) this.emit('chunks-reused', { transfer, count });
+    }
+    
+    // Receiver can decompress the algorithm we offered
+    const compression = this.getCompression(transfer);
+    transfer.compression = compression && payload.compression === compression && this.hasCapability(transfer, 'compression')
+      ? compression
+      : undefined;
     
     transfer.state = 'transferring';
     transfer.updatedAt = Date.now();
+    await this.persist(transfer);
     this.emit('transfer-started', transfer);
     
-    // Check for resume point
-    const payload = msg.payload as AcceptPayload;
-    const startIndex = payload.resumeFrom ?? 0;
+    // Queue chunks from the resume point (or only the gaps the receiver reported)
+    if (payload.missingChunks) {
+      payload.missingChunks.forEach(i => transfer.receivedChunks.delete(i));
+      this.sendQueues.set(msg.transferId, [...payload.missingChunks].sort((a, b) => a - b));
+    } else {
+      const startIndex = payload.resumeFrom ?? 0;
+      const queue: number[] = [];
+      for (let i = startIndex; i < transfer.totalChunks; i++) {
+        if (!transfer.receivedChunks.has(i)) queue.push(i);
+      }
+      this.sendQueues.set(msg.transferId, queue);
+    }
+    this.inFlight.set(msg.transferId, new Set());
     
-    // Start sending chunks from resume point
-    await this.sendNextChunk(msg.transferId, startIndex);
+    await this.fillWindow(msg.transferId);
   }
   
   private async handleReject(msg: OCFTMessage): Promise<void> {
@@ -263,11 +913,15 @@ export class TransferManager extends EventEmitter {
     transfer.state = 'rejected';
     transfer.error = payload.reason;
     transfer.updatedAt = Date.now();
+    this.clearTimers(msg.transferId);
+    await this.releaseFile(msg.transferId);
+    await this.persist(transfer);
     
     this.emit('transfer-rejected', transfer);
   }
   
-  private async handleChunk(msg: OCFTMessage): Promise<void> {
+  // Binary frames pass the chunk data separately (raw bytes instead of Base64)
+  private async handleChunk(msg: OCFTMessage, raw?: Buffer): Promise<void> {
     const transfer = this.transfers.get(msg.transferId);
     if (!transfer || transfer.direction !== 'receive') return;
     
@@ -275,16 +929,39 @@ export class TransferManager extends EventEmitter {
     const assembler = this.assemblers.get(msg.transferId);
     if (!assembler) return;
     
+    const data = raw ?? (typeof payload.data === 'string' ? Buffer.from(payload.data, 'base64') : undefined);
+    if (!data) return;
+    
+    // Late retransmissions after the file was assembled (or the transfer ended)
+    if (transfer.state !== 'accepted' && transfer.state !== 'transferring') return;
+    
     transfer.state = 'transferring';
+    this.watchIdle(transfer);
     
-    // Decode and add chunk
-    const data = Buffer.from(payload.data, 'base64');
-    const success = assembler.addChunk(payload.index, data, payload.hash);
+    // Compressed chunks are only valid once compression was negotiated
+    const compression = payload.compressed ? transfer.compression : undefined;
+    const success = (!payload.compressed || !!compression) &&
+      await assembler.addChunk(payload.index, data, payload.hash, compression);
+    const added = success && !transfer.receivedChunks.has(payload.index);
     
     if (success) {
+      // Chunks may arrive out of order or be retransmitted; the assembler keys them by index
       transfer.receivedChunks.add(payload.index);
     }
     transfer.updatedAt = Date.now();
+    await this.persist(transfer, false);
+    
+    // Write out the files this chunk finished (a corrupt file fails the whole transfer)
+    if (added && transfer.manifest) {
+      const completed = entriesCompletedBy(transfer.manifest, payload.index, transfer.chunkSize,
+        i => transfer.receivedChunks.has(i));
+      try {
+        await this.extractEntries(transfer, assembler.partPath, completed);
+      } catch (err) {
+        await this.failTransfer(transfer, 'EXTRACT_FAILED', (err as Error).message);
+        return;
+      }
+    }
     
     // Send ack
     const ack = createMessage<AckPayload>('ack', msg.transferId, this.config.botId, msg.from, {
@@ -302,54 +979,115 @@ export class TransferManager extends EventEmitter {
     const transfer = this.transfers.get(msg.transferId);
     if (!transfer || transfer.direction !== 'send') return;
     
-    // Ignore acks after completing
-    if (transfer.state === 'completed' || transfer.state === 'completing') {
-      // Final ack from receiver
-      if ((msg.payload as AckPayload).index === -1) {
+    const payload = msg.payload as AckPayload;
+    
+    // Final ack from receiver
+    if (payload.index === -1) {
+      if (transfer.state !== 'completing') return;
+      this.clearTimer(msg.transferId, 'complete');
+      
+      if (payload.received) {
+        this.ipfsKeys.delete(msg.transferId);
         transfer.state = 'completed';
         transfer.completedAt = Date.now();
+        transfer.updatedAt = Date.now();
+        await this.releaseFile(msg.transferId);
+        await this.persist(transfer);
+        for (const entry of transfer.manifest?.filter(entry => entry.size === 0) ?? []) {
+          this.emit('file-sent', { transfer, entry });
+        }
         this.emit('transfer-completed', transfer);
+        if (transfer.ipfs) await this.confirmPin(transfer);
+      } else if (payload.missingChunks?.length) {
+        // Receiver is missing chunks: retransmit only the gaps
+        transfer.state = 'transferring';
+        transfer.updatedAt = Date.now();
+        payload.missingChunks.forEach(i => transfer.receivedChunks.delete(i));
+        this.sendQueues.set(msg.transferId, [...payload.missingChunks].sort((a, b) => a - b));
+        await this.fillWindow(msg.transferId);
+      } else {
+        transfer.state = 'failed';
+        transfer.error = payload.error;
+        transfer.updatedAt = Date.now();
+        await this.releaseFile(msg.transferId);
+        await this.persist(transfer);
+        this.emit('transfer-failed', transfer);
       }
       return;
     }
     
-    const payload = msg.payload as AckPayload;
+    // Ignore stray acks outside the transferring phase
+    if (transfer.state !== 'transferring') return;
     
     if (!payload.received) {
-      // Resend chunk on error
-      await this.sendNextChunk(msg.transferId, payload.index);
+      await this.retryRejectedChunk(transfer, payload.index, payload.error);
       return;
     }
     
+    // Duplicate ack for a retransmitted chunk
+    if (transfer.receivedChunks.has(payload.index)) return;
+    
+    this.clearTimer(msg.transferId, 'chunk', payload.index);
+    this.inFlight.get(msg.transferId)?.delete(payload.index);
     transfer.receivedChunks.add(payload.index);
     transfer.updatedAt = Date.now();
+    await this.persist(transfer, false);
     
     this.emit('ack-received', { transfer, index: payload.index });
-    
-    // Send next chunk or complete
-    const nextIndex = payload.index + 1;
-    if (nextIndex < transfer.totalChunks) {
-      await this.sendNextChunk(msg.transferId, nextIndex);
-    } else {
-      // All chunks sent, send complete
-      transfer.state = 'completing';
-      const complete = createMessage<CompletePayload>('complete', msg.transferId, this.config.botId, transfer.peerId, {
-        totalChunks: transfer.totalChunks,
-        hash: transfer.hash
-      });
-      await this.send(transfer.peerId, complete);
+    if (transfer.manifest) {
+      const completed = entriesCompletedBy(transfer.manifest, payload.index, transfer.chunkSize,
+        i => transfer.receivedChunks.has(i));
+      for (const i of completed) {
+        this.emit('file-sent', { transfer, entry: transfer.manifest[i] });
+      }
     }
+    
+    // Send more chunks or complete
+    await this.fillWindow(msg.transferId);
   }
   
   private async handleComplete(msg: OCFTMessage): Promise<void> {
     const transfer = this.transfers.get(msg.transferId);
     if (!transfer || transfer.direction !== 'receive') return;
     
+    // Our final ack was lost: repeat it instead of assembling again
+    if (transfer.state === 'completed' || transfer.state === 'failed') {
+      const ack = createMessage<AckPayload>('ack', msg.transferId, this.config.botId, msg.from, {
+        index: -1,
+        received: transfer.state === 'completed',
+        error: transfer.error
+      });
+      await this.send(msg.from, ack);
+      return;
+    }
+    
+    // IPFS download still running: the final ack follows when it finishes
     const assembler = this.assemblers.get(msg.transferId);
     if (!assembler) return;
     
+    // Ask the sender to fill any gaps instead of failing the transfer
+    if (!assembler.isComplete()) {
+      this.watchIdle(transfer);
+      const ack = createMessage<AckPayload>('ack', msg.transferId, this.config.botId, msg.from, {
+        index: -1,
+        received: false,
+        missingChunks: assembler.getMissingChunks()
+      });
+      await this.send(msg.from, ack);
+      return;
+    }
+    
     // Assemble file
-    const result = await assembler.assemble();
+    this.clearTimers(msg.transferId);
+    let result = await assembler.assemble();
+    
+    // Directory: the verified bundle holds every file; write out the rest and drop it
+    if (result.success && transfer.manifest) {
+      result = await this.finishDirectory(transfer);
+    }
+    if (result.success && transfer.contentDefined) {
+      await this.cacheChunks(transfer);
+    }
     
     if (result.success) {
       transfer.state = 'completed';
@@ -362,6 +1100,7 @@ export class TransferManager extends EventEmitter {
     }
     
     transfer.updatedAt = Date.now();
+    await this.persist(transfer);
     
     // Send final ack
     const ack = createMessage<AckPayload>('ack', msg.transferId, this.config.botId, msg.from, {
@@ -380,32 +1119,857 @@ export class TransferManager extends EventEmitter {
     transfer.state = 'failed';
     transfer.error = payload.message;
     transfer.updatedAt = Date.now();
+    this.clearTimers(msg.transferId);
+    await this.releaseFile(msg.transferId);
+    await this.assemblers.get(msg.transferId)?.close();
+    await this.persist(transfer);
     
     this.emit('transfer-failed', transfer);
   }
   
   // ============ HELPERS ============
   
+  // Keep up to windowSize chunks in flight; send complete once everything is acked
+  private async fillWindow(transferId: string): Promise<void> {
+    const transfer = this.transfers.get(transferId);
+    const queue = this.sendQueues.get(transferId);
+    const inFlight = this.inFlight.get(transferId);
+    if (!transfer || !queue || !inFlight) return;
+    
+    const windowSize = this.hasCapability(transfer, 'windowing') ? Math.max(1, this.config.windowSize || 1) : 1;
+    while (transfer.state === 'transferring' && inFlight.size < windowSize && queue.length > 0) {
+      const index = queue.shift()!;
+      if (transfer.receivedChunks.has(index)) continue;
+      inFlight.add(index);
+      await this.sendNextChunk(transferId, index);
+      this.watchChunk(transfer, index);
+    }
+    
+    if (transfer.state === 'transferring' && queue.length === 0 && inFlight.size === 0) {
+      // All chunks acked, send complete
+      transfer.state = 'completing';
+      await this.persist(transfer);
+      const complete = createMessage<CompletePayload>('complete', transferId, this.config.botId, transfer.peerId, {
+        totalChunks: transfer.totalChunks,
+        hash: transfer.hash
+      });
+      await this.send(transfer.peerId, complete);
+      this.watchComplete(transfer);
+    }
+  }
+  
   private async sendNextChunk(transferId: string, index: number): Promise<void> {
     const transfer = this.transfers.get(transferId);
     const filePath = this.filePaths.get(transferId);
     if (!transfer || !filePath) return;
     
-    const chunk = await readChunk(filePath, index, transfer.chunkSize);
+    const chunk = transfer.manifest
+      ? await readManifestChunk(filePath, transfer.manifest, index, transfer.chunkSize)
+      : transfer.contentDefined
+        ? await readContentChunk(await this.getFileHandle(transferId, filePath), transfer.chunks!, index)
+        : await readChunk(await this.getFileHandle(transferId, filePath), index, transfer.chunkSize);
+    
+    // Compress before encrypting (ciphertext does not compress); chunks that do not shrink go as they are
+    const compressed = transfer.compression ? await compressChunk(chunk.data, transfer.compression) : null;
+    const plain = compressed ?? chunk.data;
+    
+    const cipher = this.getCipher(transfer);
+    const data = cipher ? cipher.encrypt(chunk.index, plain) : plain;
+    const binary = transfer.binary && this.supportsBinary();
     
     const chunkMsg = createMessage<ChunkPayload>('chunk', transferId, this.config.botId, transfer.peerId, {
       index: chunk.index,
-      data: chunk.data.toString('base64'),
-      hash: chunk.hash
+      data: binary ? undefined : data.toString('base64'),
+      hash: chunk.hash,
+      compressed: compressed ? true : undefined
     });
     
-    await this.send(transfer.peerId, chunkMsg);
+    if (binary) {
+      await this.sendBinary(transfer.peerId, chunkMsg, data);
+    } else {
+      await this.send(transfer.peerId, chunkMsg);
+    }
     this.emit('chunk-sent', { transfer, index });
   }
   
+  // Chunk indices not yet received (receiver) or acknowledged (sender)
+  private getMissingChunks(transfer: TransferInfo): number[] {
+    const missing: number[] = [];
+    for (let i = 0; i < transfer.totalChunks; i++) {
+      if (!transfer.receivedChunks.has(i)) missing.push(i);
+    }
+    return missing;
+  }
+  
+  // Receiver: partial file for the transfer's current chunk layout
+  private createAssembler(transfer: TransferInfo, receivedChunks?: Iterable<number>): ChunkAssembler {
+    return new ChunkAssembler(this.getAssemblyPath(transfer), transfer.hash, transfer.totalChunks, transfer.chunkSize, {
+      receivedChunks,
+      cipher: this.getCipher(transfer),
+      layout: transfer.contentDefined ? transfer.chunks : undefined
+    });
+  }
+  
+  // ============ CHUNK CACHE ============
+  
+  // Fill missing chunks of a content-defined transfer from the cache; returns the hashes found
+  private async fillFromCache(transfer: TransferInfo): Promise<string[]> {
+    const assembler = this.assemblers.get(transfer.id);
+    if (!this.chunkCache || !assembler) return [];
+    
+    const found = new Set<string>();
+    let count = 0;
+    for (const i of this.getMissingChunks(transfer)) {
+      const hash = transfer.chunks![i].hash;
+      const data = await this.chunkCache.get(hash);
+      if (data && await assembler.addCachedChunk(i, data)) {
+        transfer.receivedChunks.add(i);
+        found.add(hash);
+        count++;
+      }
+    }
+    if (count) this.emit('chunks-reused', { transfer, count });
+    return Array.from(found);
+  }
+  
+  // Keep the chunks of a received content-defined file for its next version
+  private async cacheChunks(transfer: TransferInfo): Promise<void> {
+    if (!this.chunkCache) return;
+    
+    try {
+      const handle = await open(transfer.localPath!, 'r');
+      try {
+        const offsets = chunkOffsets(transfer.chunks!);
+        for (let i = 0; i < transfer.chunks!.length; i++) {
+          const chunk = await readContentChunk(handle, transfer.chunks!, i, offsets);
+          await this.chunkCache.put(chunk.hash, chunk.data);
+        }
+      } finally {
+        await handle.close();
+      }
+    } catch (err) {
+      console.error(`Failed to cache chunks of ${transfer.id}: ${(err as Error).message}`);
+    }
+  }
+  
+  // Send the first offer of a new transfer
+  private async offerTransfer(transfer: TransferInfo): Promise<void> {
+    await this.send(transfer.peerId, this.createOffer(transfer));
+    this.watchOffer(transfer);
+    this.emit('offer-sent', transfer);
+  }
+  
+  // ============ DIRECTORIES ============
+  
+  // Chunks of a directory transfer are assembled next to it, then split into files
+  private getAssemblyPath(transfer: TransferInfo): string {
+    return transfer.manifest ? `${transfer.localPath}${BUNDLE_SUFFIX}` : transfer.localPath!;
+  }
+  
+  // Create the target directory (an overwritten file makes way for it)
+  private async prepareDirectory(transfer: TransferInfo): Promise<void> {
+    const dir = transfer.localPath!;
+    const existing = await lstat(dir).catch(() => null);
+    if (existing && !existing.isDirectory() && transfer.collision === 'overwritten') {
+      await rm(dir, { force: true });
+    }
+    await mkdir(dir, { recursive: true });
+  }
+  
+  // Write manifest entries out of the received data into the target directory
+  private async extractEntries(transfer: TransferInfo, source: string, entries: number[]): Promise<void> {
+    const done = this.extracted.get(transfer.id) ?? new Set<number>();
+    this.extracted.set(transfer.id, done);
+    const offsets = manifestOffsets(transfer.manifest!);
+    
+    for (const i of entries) {
+      if (done.has(i)) continue;
+      const entry: ManifestEntry = transfer.manifest![i];
+      const path = await extractEntry(source, offsets[i], entry, transfer.localPath!);
+      done.add(i);
+      this.emit('file-received', { transfer, entry, path });
+    }
+  }
+  
+  // After the whole bundle verified: write the files not extracted yet (empty ones, or all after a restart)
+  private async finishDirectory(transfer: TransferInfo): Promise<{ success: boolean; error?: string }> {
+    const bundle = this.getAssemblyPath(transfer);
+    try {
+      await this.extractEntries(transfer, bundle, transfer.manifest!.map((_, i) => i));
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: (err as Error).message };
+    } finally {
+      this.extracted.delete(transfer.id);
+      await rm(bundle, { force: true });
+    }
+  }
+  
+  // Save transfer state to the journal (throttled for chunk progress unless forced)
+  private async persist(transfer: TransferInfo, force = true): Promise<void> {
+    if (!this.store) return;
+    
+    const now = Date.now();
+    if (!force && now - (this.persistedAt.get(transfer.id) || 0) < PERSIST_INTERVAL) {
+      this.unpersisted.add(transfer.id);
+      return;
+    }
+    this.persistedAt.set(transfer.id, now);
+    this.unpersisted.delete(transfer.id);
+    
+    try {
+      // Finished transfers have nothing left to resume
+      if (transfer.state === 'completed' || transfer.state === 'rejected') {
+        await this.store.remove(transfer.id);
+        this.persistedAt.delete(transfer.id);
+        return;
+      }
+      
+      await this.store.save(toStoredTransfer(transfer, {
+        sourcePath: this.filePaths.get(transfer.id),
+        partPath: this.assemblers.get(transfer.id)?.partPath,
+        ipfsKey: transfer.direction === 'send' ? this.ipfsKeys.get(transfer.id)?.toString('base64') : undefined
+      }));
+    } catch (err) {
+      console.error(`Failed to persist transfer ${transfer.id}: ${(err as Error).message}`);
+    }
+  }
+  
+  // Reload transfers saved by a previous process
+  private async restoreTransfers(): Promise<void> {
+    if (!this.store) return;
+    
+    let stored;
+    try {
+      stored = await this.store.load();
+    } catch (err) {
+      console.error(`Failed to load stored transfers: ${(err as Error).message}`);
+      return;
+    }
+    
+    for (const record of stored) {
+      const transfer = fromStoredTransfer(record);
+      this.transfers.set(transfer.id, transfer);
+      
+      if (transfer.direction === 'send' && record.sourcePath) {
+        this.filePaths.set(transfer.id, record.sourcePath);
+      }
+      if (transfer.direction === 'send' && record.ipfsKey) {
+        this.ipfsKeys.set(transfer.id, Buffer.from(record.ipfsKey, 'base64'));
+      }
+      
+      // Receiver: reopen the partial file with the chunks already on disk
+      if (transfer.direction === 'receive' && transfer.localPath && !transfer.ipfs) {
+        this.assemblers.set(transfer.id, this.createAssembler(transfer, transfer.receivedChunks));
+      }
+    }
+  }
+  
+  // Open the source file once per transfer and reuse the handle for every chunk
+  private async getFileHandle(transferId: string, filePath: string): Promise<FileHandle> {
+    // Cache the pending open so concurrent chunk reads share one handle
+    let handle = this.fileHandles.get(transferId);
+    if (!handle) {
+      handle = open(filePath, 'r');
+      handle.catch(() => this.fileHandles.delete(transferId));
+      this.fileHandles.set(transferId, handle);
+    }
+    return handle;
+  }
+  
+  // Close the source file handle once a transfer is finished
+  private async releaseFile(transferId: string): Promise<void> {
+    const handle = this.fileHandles.get(transferId);
+    if (!handle) return;
+    this.fileHandles.delete(transferId);
+    await (await handle).close();
+  }
+  
   private async send(to: string, msg: OCFTMessage): Promise<void> {
-    const encoded = encodeForChat(msg);
-    await this.sendMessage(to, encoded);
+    this.sign(msg);
+    
+    // Messages longer than the transport carries go in fragments
+    const maxChars = this.transport?.maxMessageChars;
+    const parts = maxChars === undefined ? [encodeForChat(msg)] : splitForChat(msg, maxChars);
+    for (const part of parts) {
+      await this.sendMessage(to, part);
+    }
+  }
+  
+  // Send a message with raw data as one binary frame (transport must support them)
+  private async sendBinary(to: string, msg: OCFTMessage, data: Buffer): Promise<void> {
+    this.sign(msg);
+    await this.transport!.sendBinary!(to, encodeBinary(msg, data));
+  }
+  
+  // Messages of a negotiated transfer carry its version; the MAC covers it
+  private sign(msg: OCFTMessage): void {
+    const transfer = this.transfers.get(msg.transferId);
+    if (transfer?.version) msg.version = transfer.version;
+    const key = transfer && this.getMessageKey(transfer, msg.type);
+    if (key) {
+      msg.mac = computeMessageMac(key, msg);
+    }
+  }
+  
+  // Tell the peer of an unknown transfer we cannot speak its version (never in answer to an error: no loops)
+  private async sendVersionError(msg: OCFTMessage, reason: string): Promise<void> {
+    if (msg.type === 'error') return;
+    
+    const error = createMessage<ErrorPayload>('error', msg.transferId, this.config.botId, msg.from, {
+      code: 'UNSUPPORTED_VERSION',
+      message: `${reason} (supported: ${OCFT_MIN_VERSION} to ${OCFT_VERSION})`,
+      recoverable: false
+    });
+    await this.send(msg.from, error);
+  }
+  
+  // What we can do, advertised in offers and accepts
+  private getCapabilities(): Capability[] {
+    const capabilities: Capability[] = ['windowing', 'resume', 'manifest', 'compression', 'dedup', 'resize'];
+    if (this.config.keyPair) capabilities.push('encryption');
+    if (this.supportsBinary()) capabilities.push('binary');
+    return capabilities;
+  }
+  
+  // Peers that predate negotiation advertise nothing: keep behaving as before with them
+  private hasCapability(transfer: TransferInfo, capability: Capability): boolean {
+    return !transfer.capabilities || transfer.capabilities.includes(capability);
+  }
+  
+  // Binary frames need a transport that carries them and a non-zero binary chunk size
+  private supportsBinary(): boolean {
+    return !!this.transport?.binary && !!this.transport.sendBinary && !!this.config.binaryChunkSize;
+  }
+  
+  // Binary layout to offer (the current one once chunks were acknowledged or it was taken)
+  private getBinaryParams(transfer: TransferInfo): BinaryParams | undefined {
+    if (transfer.ipfs || transfer.contentDefined || !this.supportsBinary()) return undefined;
+    
+    const chunkSize = transfer.binary || transfer.receivedChunks.size > 0
+      ? transfer.chunkSize
+      : this.config.binaryChunkSize!;
+    return { chunkSize, totalChunks: Math.ceil(transfer.size / chunkSize), relay: this.transport?.relay };
+  }
+  
+  // Largest chunk whose text message fits the transport's message limit (Infinity: no limit).
+  // Sized for the worst case: highest index, compressed flag, MAC and encryption overhead.
+  // Never below MIN_FITTED_CHUNK_SIZE: tighter channels get chunks in fragments.
+  private getChunkFit(transferId: string, from: string, to: string, encrypted: boolean, size: number): number {
+    const maxChars = this.transport?.maxMessageChars;
+    if (maxChars === undefined) return Infinity;
+    
+    const template = createMessage<ChunkPayload>('chunk', transferId, from, to, {
+      index: Math.max(size - 1, 0),
+      hash: '0'.repeat(64),
+      compressed: true
+    });
+    template.mac = '0'.repeat(64);
+    return Math.max(maxChunkData(template, maxChars) - (encrypted ? E2E_OVERHEAD : 0), MIN_FITTED_CHUNK_SIZE);
+  }
+  
+  // Configured chunk size, shrunk so chunk messages fit the transport
+  private fitChunkSize(transferId: string, peerId: string, chunkSize: number, size: number): number {
+    return Math.min(chunkSize, this.getChunkFit(transferId, this.config.botId, peerId, !!this.config.encrypt, size));
+  }
+  
+  // Compression to offer: the configured algorithm, unless the file is compressed already
+  private getCompression(transfer: TransferInfo): CompressionAlgorithm | undefined {
+    if (transfer.ipfs || !this.config.compression || isCompressedMimeType(transfer.mimeType)) return undefined;
+    return this.config.compression;
+  }
+  
+  // Mark a transfer as failed and tell the peer why
+  private async failTransfer(transfer: TransferInfo, code: string, message: string, recoverable = false): Promise<void> {
+    transfer.state = 'failed';
+    transfer.error = message;
+    transfer.updatedAt = Date.now();
+    this.clearTimers(transfer.id);
+    await this.releaseFile(transfer.id);
+    await this.assemblers.get(transfer.id)?.close();
+    await this.persist(transfer);
+    
+    const error = createMessage<ErrorPayload>('error', transfer.id, this.config.botId, transfer.peerId, {
+      code,
+      message,
+      recoverable
+    });
+    await this.send(transfer.peerId, error);
+    this.emit('transfer-failed', transfer);
+  }
+  
+  // ============ IPFS ============
+  
+  // Sender: encrypt to a temporary file and upload that; the plaintext never leaves this machine
+  private async uploadEncryptedIPFS(
+    transferId: string,
+    filePath: string
+  ): Promise<{ result: IPFSUploadResult; cipher: IPFSCipherParams }> {
+    const key = generateFileKey();
+    const encryptedPath = join(tmpdir(), `${transferId}.ocft-enc`);  // Name reveals nothing about the file
+    
+    try {
+      const digest = await encryptFile(filePath, encryptedPath, key, transferId);
+      const result = await uploadToIPFS(encryptedPath, this.config.ipfs!);
+      this.ipfsKeys.set(transferId, key);
+      return {
+        result: { ...result, encrypted: true },
+        cipher: { scheme: FILE_CIPHER_SCHEME, segmentSize: FILE_SEGMENT_SIZE, ...digest }
+      };
+    } finally {
+      await rm(encryptedPath, { force: true });
+    }
+  }
+  
+  // Key that seals the file key: the E2E session if there is one, else the receiver's secret
+  private getKeyWrapKey(transfer: TransferInfo): Buffer | undefined {
+    const sessionKey = this.getSessionKey(transfer);
+    if (sessionKey) return deriveKeyWrapKey(sessionKey, transfer.id);
+    
+    if (transfer.secretAuth) {
+      const secret = transfer.direction === 'receive' ? this.config.secret : this.getPeerSecret(transfer.peerId);
+      if (secret) return deriveKeyWrapKey(secret, transfer.id);
+    }
+    return undefined;
+  }
+  
+  // Sender: deliver the file key, sealed, once the receiver has accepted
+  private async sendIPFSKey(transfer: TransferInfo): Promise<void> {
+    const key = this.ipfsKeys.get(transfer.id);
+    const wrapKey = this.getKeyWrapKey(transfer);
+    if (!key || !wrapKey) {
+      await this.failTransfer(transfer, 'ENCRYPTION_FAILED', 'Key for the encrypted IPFS upload is not available');
+      return;
+    }
+    
+    const sealed = new ChunkCipher(wrapKey, transfer.id).encrypt(0, key);
+    const msg = createMessage<IPFSKeyPayload>('ipfs-key', transfer.id, this.config.botId, transfer.peerId, {
+      key: sealed.toString('base64')
+    });
+    await this.send(transfer.peerId, msg);
+  }
+  
+  // Receiver: unseal the file key and start the download
+  private async handleIPFSKey(msg: OCFTMessage): Promise<void> {
+    const transfer = this.transfers.get(msg.transferId);
+    if (!transfer || transfer.direction !== 'receive' || !transfer.ipfs?.cipher) return;
+    
+    // Our final ack was lost: repeat it
+    if (transfer.state === 'completed' || transfer.state === 'failed') {
+      const ack = createMessage<AckPayload>('ack', msg.transferId, this.config.botId, msg.from, {
+        index: -1,
+        received: transfer.state === 'completed',
+        error: transfer.error
+      });
+      await this.send(msg.from, ack);
+      return;
+    }
+    
+    if (transfer.state !== 'accepted' && transfer.state !== 'transferring') return;
+    if (this.downloads.has(transfer.id)) return;
+    
+    const wrapKey = this.getKeyWrapKey(transfer);
+    let key: Buffer;
+    try {
+      if (!wrapKey) throw new Error('No shared key');
+      key = new ChunkCipher(wrapKey, transfer.id).decrypt(0, Buffer.from((msg.payload as IPFSKeyPayload).key, 'base64'));
+    } catch {
+      this.securityWarning(msg, 'Cannot unseal IPFS key');
+      return;
+    }
+    
+    this.ipfsKeys.set(transfer.id, key);
+    this.clearTimer(transfer.id, 'idle');
+    this.startIPFSDownload(transfer);
+  }
+  
+  // Receiver: fetch an accepted IPFS transfer in the background
+  private startIPFSDownload(transfer: TransferInfo): void {
+    if (this.downloads.has(transfer.id)) return;
+    
+    transfer.state = 'transferring';
+    const download = this.downloadIPFS(transfer)
+      .catch((err) => console.error(`IPFS download ${transfer.id} failed: ${err.message}`))
+      .finally(() => this.downloads.delete(transfer.id));
+    this.downloads.set(transfer.id, download);
+  }
+  
+  // Sender: remember what was pinned so it can be released later
+  private async recordPin(transfer: TransferInfo, result: IPFSUploadResult): Promise<void> {
+    try {
+      await this.pins?.add({ ...result, uploadedAt: Date.now(), peerId: transfer.peerId, transferId: transfer.id });
+    } catch (err) {
+      console.error(`Failed to record IPFS pin ${result.cid}: ${(err as Error).message}`);
+    }
+  }
+  
+  // Sender: the receiver has the file; unpin it unless another transfer still needs the CID
+  private async confirmPin(transfer: TransferInfo): Promise<void> {
+    if (!this.pins) return;
+    const { cid } = transfer.ipfs!;
+    
+    try {
+      await this.pins.confirm(transfer.id);
+      if (!this.config.autoUnpin) return;
+      
+      // Unconfirmed uploads of the same CID block the unpin unless their transfer is over
+      const pending = (await this.pins.list()).some(record => {
+        if (record.cid !== cid || record.confirmedAt) return false;
+        const other = record.transferId ? this.transfers.get(record.transferId) : undefined;
+        return !other || !['completed', 'failed', 'rejected', 'cancelled'].includes(other.state);
+      });
+      if (pending) return;
+      
+      await releasePin(this.pins, cid, this.config.ipfs || {});
+      this.emit('ipfs-unpinned', { transfer, cid });
+    } catch (err) {
+      console.error(`Failed to unpin ${cid}: ${(err as Error).message}`);
+    }
+  }
+  
+  // Download, verify and report the result to the sender with the final ack
+  private async downloadIPFS(transfer: TransferInfo): Promise<void> {
+    const { cid, url, cipher } = transfer.ipfs!;
+    
+    let error: string | undefined;
+    try {
+      if (cipher) {
+        await this.downloadEncryptedIPFS(transfer, cipher);
+      } else {
+        await downloadFromIPFS(cid, this.config.ipfs || {}, {
+          outputPath: transfer.localPath!,
+          size: transfer.size,
+          hash: transfer.hash,
+          urls: [url]
+        });
+      }
+    } catch (err) {
+      error = (err as Error).message;
+    }
+    this.ipfsKeys.delete(transfer.id);
+    
+    transfer.state = error ? 'failed' : 'completed';
+    transfer.error = error;
+    transfer.updatedAt = Date.now();
+    if (!error) transfer.completedAt = Date.now();
+    await this.persist(transfer);
+    this.emit(error ? 'transfer-failed' : 'transfer-completed', transfer);
+    
+    const ack = createMessage<AckPayload>('ack', transfer.id, this.config.botId, transfer.peerId, {
+      index: -1,
+      received: !error,
+      error
+    });
+    await this.send(transfer.peerId, ack);
+  }
+  
+  // Download the encrypted upload, check it, then decrypt and verify the original hash
+  private async downloadEncryptedIPFS(transfer: TransferInfo, cipher: IPFSCipherParams): Promise<void> {
+    const { cid, url } = transfer.ipfs!;
+    const outputPath = transfer.localPath!;
+    const encryptedPath = `${outputPath}.ocft-enc`;
+    const partPath = `${outputPath}${PART_SUFFIX}`;
+    
+    try {
+      await downloadFromIPFS(cid, this.config.ipfs || {}, {
+        outputPath: encryptedPath,
+        size: cipher.size,
+        hash: cipher.hash,
+        urls: [url]
+      });
+      
+      const plain = await decryptFile(encryptedPath, partPath, this.ipfsKeys.get(transfer.id)!, transfer.id, cipher.segmentSize)
+        .catch((err) => { throw new Error(`Cannot decrypt IPFS download: ${err.message}`); });
+      if (plain.size !== transfer.size || plain.hash !== transfer.hash) {
+        throw new Error('Decrypted file does not match the offered hash');
+      }
+      await rename(partPath, outputPath);
+    } catch (err) {
+      await rm(partPath, { force: true });
+      throw err;
+    } finally {
+      await rm(encryptedPath, { force: true });
+    }
+  }
+  
+  // ============ TIMEOUTS ============
+  
+  // Sender: re-send the offer until the receiver answers
+  private watchOffer(transfer: TransferInfo, resumeFrom?: number): void {
+    this.startTimer(transfer, 'offer', this.config.offerTimeout!, {
+      waiting: () => transfer.state === 'pending',
+      retransmit: () => this.send(transfer.peerId, this.createOffer(transfer, resumeFrom))
+    });
+  }
+  
+  // Sender: retransmit a chunk until it is acked
+  private watchChunk(transfer: TransferInfo, index: number, attempt = 0, delay?: number): void {
+    this.startTimer(transfer, 'chunk', this.config.ackTimeout!, {
+      waiting: () => transfer.state === 'transferring' && !transfer.receivedChunks.has(index),
+      retransmit: () => this.sendNextChunk(transfer.id, index)
+    }, index, attempt, delay);
+  }
+  
+  // Sender: the receiver could not verify a chunk. Re-send it after a backoff, counting
+  // against the same retries as timeouts, so a chunk that never verifies fails the transfer.
+  private async retryRejectedChunk(transfer: TransferInfo, index: number, error?: string): Promise<void> {
+    if (transfer.receivedChunks.has(index) || !this.inFlight.get(transfer.id)?.has(index)) return;
+    
+    const attempt = this.attempts.get(this.timerKey(transfer.id, 'chunk', index)) ?? 0;
+    if (attempt >= this.config.maxRetries!) {
+      await this.failTransfer(transfer, 'CHUNK_REJECTED', `Chunk ${index} rejected by ${transfer.peerId}${error ? `: ${error}` : ''}`);
+      return;
+    }
+    this.watchChunk(transfer, index, attempt, NACK_DELAY * BACKOFF_FACTOR ** attempt);
+  }
+  
+  // Sender: re-send complete until the final ack arrives. IPFS receivers download the whole
+  // file before acking, so those transfers are bounded by ipfsDownloadTimeout instead.
+  private watchComplete(transfer: TransferInfo): void {
+    this.startTimer(transfer, 'complete', this.config.completeTimeout!, {
+      waiting: () => transfer.state === 'completing',
+      deadline: transfer.ipfs ? Date.now() + this.config.ipfsDownloadTimeout! : undefined,
+      // Encrypted IPFS uploads: the key may be what got lost
+      retransmit: () => transfer.ipfs?.cipher ? this.sendIPFSKey(transfer) : this.send(transfer.peerId,
+        createMessage<CompletePayload>('complete', transfer.id, this.config.botId, transfer.peerId, {
+          totalChunks: transfer.totalChunks,
+          hash: transfer.hash
+        })
+      )
+    });
+  }
+  
+  // Receiver: nothing to retransmit, but report silence and give up when the sender would have.
+  // One extra attempt so our deadline falls after the sender's last retransmission.
+  private watchIdle(transfer: TransferInfo): void {
+    this.startTimer(transfer, 'idle', this.config.ackTimeout!, {
+      waiting: () => transfer.state === 'accepted' || transfer.state === 'transferring',
+      extraRetries: 1
+    });
+  }
+  
+  // Receiver: drop an unanswered offer once the sender has stopped re-sending it
+  private watchPendingOffer(transfer: TransferInfo): void {
+    const key = this.timerKey(transfer.id, 'offer');
+    clearTimeout(this.timers.get(key));
+    
+    let lifetime = 0;
+    for (let attempt = 0; attempt <= this.config.maxRetries! + 1; attempt++) {
+      lifetime += this.config.offerTimeout! * BACKOFF_FACTOR ** attempt;
+    }
+    
+    this.timers.set(key, setTimeout(() => {
+      this.timers.delete(key);
+      if (transfer.state !== 'pending') return;
+      this.rejectTransfer(transfer.id, 'Offer expired').catch((err) => {
+        console.error(`Failed to expire offer ${transfer.id}: ${err.message}`);
+      });
+    }, lifetime));
+  }
+  
+  // Arm a timer; on expiry emit 'transfer-stalled', retransmit and wait BACKOFF_FACTOR times longer.
+  // After maxRetries retransmissions the transfer fails with a recoverable error.
+  // delay replaces the backoff wait for this attempt (e.g. to retry a rejected chunk sooner).
+  private startTimer(
+    transfer: TransferInfo,
+    phase: StallPhase,
+    timeout: number,
+    options: {
+      waiting: () => boolean;               // Still expecting the peer's response?
+      retransmit?: () => Promise<void>;
+      extraRetries?: number;
+      deadline?: number;                    // Fail at this time rather than when retries run out
+    },
+    index?: number,
+    attempt = 0,
+    delay = timeout * BACKOFF_FACTOR ** attempt
+  ): void {
+    const key = this.timerKey(transfer.id, phase, index);
+    clearTimeout(this.timers.get(key));
+    this.attempts.set(key, attempt);
+    if (options.deadline) delay = Math.max(0, Math.min(delay, options.deadline - Date.now()));
+    
+    this.timers.set(key, setTimeout(async () => {
+      this.timers.delete(key);
+      try {
+        if (!options.waiting()) {
+          this.attempts.delete(key);
+          return;
+        }
+        const exhausted = attempt >= this.config.maxRetries! + (options.extraRetries || 0);
+        if (options.deadline ? Date.now() >= options.deadline : exhausted) {
+          this.attempts.delete(key);
+          await this.failTransfer(transfer, 'TIMEOUT', `No response from ${transfer.peerId} (${phase})`, true);
+          return;
+        }
+        // Out of retransmissions before the deadline: just wait for it
+        if (exhausted) {
+          this.startTimer(transfer, phase, timeout, options, index, attempt, options.deadline! - Date.now());
+          return;
+        }
+        
+        // Counted before sending: a rejection may arrive while we retransmit
+        this.attempts.set(key, attempt + 1);
+        const stall: TransferStall = { transfer, phase, attempt: attempt + 1, index };
+        this.emit('transfer-stalled', stall);
+        await options.retransmit?.();
+        
+        // The response may have arrived while we were retransmitting
+        if (options.waiting()) {
+          this.startTimer(transfer, phase, timeout, options, index, attempt + 1);
+        } else {
+          this.attempts.delete(key);
+        }
+      } catch (err) {
+        console.error(`Retransmission failed for ${transfer.id}: ${(err as Error).message}`);
+      }
+    }, delay));
+  }
+  
+  private timerKey(transferId: string, phase: StallPhase, index?: number): string {
+    return index === undefined ? `${transferId}:${phase}` : `${transferId}:${phase}:${index}`;
+  }
+  
+  private clearTimer(transferId: string, phase: StallPhase, index?: number): void {
+    const key = this.timerKey(transferId, phase, index);
+    clearTimeout(this.timers.get(key));
+    this.timers.delete(key);
+    this.attempts.delete(key);
+  }
+  
+  // Cancel every timer of a transfer
+  private clearTimers(transferId: string): void {
+    for (const [key, timer] of this.timers) {
+      if (key.startsWith(`${transferId}:`)) {
+        clearTimeout(timer);
+        this.timers.delete(key);
+      }
+    }
+    for (const key of this.attempts.keys()) {
+      if (key.startsWith(`${transferId}:`)) this.attempts.delete(key);
+    }
+  }
+  
+  // Our half of the encryption handshake for an encrypted transfer
+  private getEncryptionParams(transfer: TransferInfo): EncryptionParams | undefined {
+    if (!transfer.encryption || !this.config.keyPair) return undefined;
+    return {
+      scheme: E2E_SCHEME,
+      publicKey: this.config.keyPair.publicKey,
+      salt: transfer.direction === 'send' ? transfer.encryption.salt : undefined
+    };
+  }
+  
+  // E2E session key, available once both public keys are known
+  private getSessionKey(transfer: TransferInfo, peerPublicKey = transfer.encryption?.peerPublicKey): Buffer | undefined {
+    if (!transfer.encryption || !peerPublicKey || !this.config.keyPair) return undefined;
+    return deriveSessionKey(this.config.keyPair, peerPublicKey, transfer.encryption.salt, transfer.id);
+  }
+  
+  // Session cipher for encrypted transfers
+  private getCipher(transfer: TransferInfo): ChunkCipher | undefined {
+    let cipher = this.ciphers.get(transfer.id);
+    if (!cipher) {
+      const key = this.getSessionKey(transfer);
+      if (!key) return undefined;
+      cipher = new ChunkCipher(key, transfer.id);
+      this.ciphers.set(transfer.id, cipher);
+    }
+    return cipher;
+  }
+  
+  // Per-transfer MAC key: the receiver's secret when the sender proved it, else the E2E session.
+  // E2E keys are only agreed by the ACCEPT, so OFFER/REJECT of such transfers carry no MAC.
+  private getMessageKey(transfer: TransferInfo, type: MessageType, peerPublicKey?: string): Buffer | null {
+    const cached = this.messageKeys.get(transfer.id);
+    if (cached) return cached;
+    
+    let key: Buffer | null = null;
+    if (transfer.secretAuth) {
+      const secret = transfer.direction === 'receive' ? this.config.secret : this.getPeerSecret(transfer.peerId);
+      if (secret) key = deriveMessageKey(secret, transfer.id);
+    } else if (type !== 'offer' && type !== 'ipfs-offer' && type !== 'reject') {
+      const sessionKey = this.getSessionKey(transfer, peerPublicKey);
+      if (sessionKey) key = deriveMessageKey(sessionKey, transfer.id);
+    }
+    
+    // Keys from a not-yet-confirmed peer key (incoming ACCEPT) are not cached
+    if (key && !peerPublicKey) this.messageKeys.set(transfer.id, key);
+    return key;
+  }
+  
+  // Check sender identity and MAC before a message reaches its handler
+  private verifyMessage(fromId: string, msg: OCFTMessage): boolean {
+    // The channel adapter knows who really sent the message
+    if (fromId && fromId !== msg.from) {
+      return this.securityWarning(msg, `Sender mismatch: channel reports ${fromId}`);
+    }
+    
+    // Offers are verified in handleOffer once the secret proof is checked
+    if (msg.type === 'offer' || msg.type === 'ipfs-offer') return true;
+    
+    const transfer = this.transfers.get(msg.transferId);
+    if (!transfer) return true; // Handlers ignore unknown transfers
+    
+    if (msg.from !== transfer.peerId) {
+      return this.securityWarning(msg, `Message for transfer with ${transfer.peerId} from ${msg.from}`);
+    }
+    
+    // ACCEPT completes the E2E key agreement: verify with the key it carries
+    const acceptKey = msg.type === 'accept' && transfer.direction === 'send' && !transfer.encryption?.peerPublicKey
+      ? (msg.payload as AcceptPayload).encryption?.publicKey
+      : undefined;
+    const key = this.getMessageKey(transfer, msg.type, acceptKey);
+    
+    // Peers that predate MACs answer with neither a MAC nor a negotiated version. With
+    // legacySecrets the secret crosses the channel in plaintext anyway, so take them unsigned.
+    const legacyAccept = msg.type === 'accept' && transfer.direction === 'send' && transfer.state === 'pending' &&
+      !msg.mac && (msg.payload as AcceptPayload).version === undefined;
+    if (key && legacyAccept && this.config.legacySecrets && !this.config.requireAuth) {
+      transfer.unsignedPeer = true;
+      return true;
+    }
+    if (key && transfer.unsignedPeer && !msg.mac) return true;
+    
+    if (key) {
+      // A channel attacker can always drop messages, so an unauthenticated REJECT (or a
+      // version error, which a receiver without the transfer cannot sign) during the
+      // handshake grants no extra power
+      if (!msg.mac && transfer.state === 'pending' && (msg.type === 'reject' || isVersionError(msg))) return true;
+      if (!verifyMessageMac(key, msg)) return this.securityWarning(msg, 'Invalid or missing MAC');
+      return true;
+    }
+    
+    if (this.config.requireAuth) {
+      return this.securityWarning(msg, 'Unauthenticated message');
+    }
+    return true;
+  }
+  
+  // Report a dropped message; always returns false so callers can return it directly
+  private securityWarning(msg: OCFTMessage, reason: string): false {
+    this.emit('security-warning', { reason, message: msg });
+    return false;
+  }
+  
+  // Validate an offer's encryption request; returns a reject reason if unacceptable
+  private checkOfferEncryption(peerId: string, encryption?: EncryptionParams): string | undefined {
+    if (!encryption) {
+      return this.config.requireEncryption ? 'Encryption required' : undefined;
+    }
+    if (encryption.scheme !== E2E_SCHEME) return `Unsupported encryption scheme: ${encryption.scheme}`;
+    if (!this.config.keyPair) return 'Encryption not supported';
+    if (!encryption.salt || !isValidPublicKey(encryption.publicKey)) return 'Invalid encryption parameters';
+    
+    const pinnedKey = this.getPeerPublicKey(peerId);
+    if (pinnedKey && pinnedKey !== encryption.publicKey) return 'Public key does not match trusted peer';
+    
+    return undefined;
+  }
+  
+  // Get peer's pinned public key from trusted peers list
+  private getPeerPublicKey(peerId: string): string | undefined {
+    return this.config.trustedPeers?.find(p => p.id === peerId)?.publicKey;
   }
   
   // Get peer's secret from trusted peers list
@@ -414,17 +1978,64 @@ export class TransferManager extends EventEmitter {
     return peer?.secret;
   }
   
-  // Check if incoming secret matches our secret (with TTL validation)
-  private isValidSecret(secret: string | undefined, secretTTL?: number): boolean {
-    if (!secret) return false;
-    if (secret !== this.config.secret) return false;
+  // Build an offer proving knowledge of the peer's secret (HMAC, never the raw secret)
+  private createOffer(transfer: TransferInfo, resumeFrom?: number): OCFTMessage {
+    const peerSecret = this.getPeerSecret(transfer.peerId);
+    const common = {
+      filename: transfer.filename,
+      size: transfer.size,
+      mimeType: transfer.mimeType,
+      hash: transfer.hash,
+      secret: this.config.legacySecrets ? peerSecret : undefined,
+      secretTTL: this.config.secretTTL ? Date.now() + this.config.secretTTL : undefined,
+      encryption: this.getEncryptionParams(transfer),
+      versions: { min: OCFT_MIN_VERSION, max: OCFT_VERSION },
+      capabilities: this.getCapabilities()
+    };
+    
+    const offer = transfer.ipfs
+      ? createMessage<IPFSOfferPayload>('ipfs-offer', transfer.id, this.config.botId, transfer.peerId, {
+        ...common,
+        cid: transfer.ipfs.cid,
+        url: transfer.ipfs.url,
+        cipher: transfer.ipfs.cipher
+      })
+      : createMessage<OfferPayload>('offer', transfer.id, this.config.botId, transfer.peerId, {
+        ...common,
+        chunkSize: transfer.chunkSize,
+        totalChunks: transfer.totalChunks,
+        resumeFrom,
+        binary: this.getBinaryParams(transfer),
+        manifest: transfer.manifest,
+        compression: this.getCompression(transfer),
+        chunks: transfer.chunks
+      });
+    
+    // Proof covers the final message fields, so compute it last
+    if (peerSecret) {
+      (offer.payload as OfferPayload).proof = computeOfferProof(peerSecret, offer);
+    }
+    return offer;
+  }
+  
+  // Check whether the sender proved knowledge of our secret (with TTL validation).
+  // Returns null for a replayed proof, which must be ignored entirely.
+  private checkOfferAuth(msg: OCFTMessage): boolean | null {
+    const payload = msg.payload as OfferPayload;
     
     // Check TTL if provided
-    if (secretTTL && Date.now() > secretTTL) {
+    if (payload.secretTTL && Date.now() > payload.secretTTL) {
       return false; // Secret has expired
     }
     
-    return true;
+    if (payload.proof) {
+      if (Math.abs(Date.now() - msg.timestamp) > this.config.proofWindow!) return false;
+      if (!verifyOfferProof(this.config.secret, msg)) return false;
+      return this.replayCache.check(msg.transferId, msg.timestamp) ? true : null;
+    }
+    
+    // Plaintext secret from peers that predate offer proofs
+    return !!this.config.legacySecrets && payload.secret === this.config.secret;
   }
   
   // Check if a trusted peer's trust has expired
@@ -435,6 +2046,7 @@ export class TransferManager extends EventEmitter {
   
   // Resume an interrupted transfer
   async resumeTransfer(transferId: string): Promise<void> {
+    await this.ready;
     const transfer = this.transfers.get(transferId);
     if (!transfer) {
       throw new Error('Transfer not found');
@@ -445,30 +2057,36 @@ export class TransferManager extends EventEmitter {
     }
     
     if (transfer.direction === 'receive') {
-      // For receiver: find the last received chunk and accept from there
-      const lastChunk = Math.max(...Array.from(transfer.receivedChunks), -1);
+      // For receiver: ask only for the chunks that are still missing
+      const missing = this.getMissingChunks(transfer);
       transfer.state = 'pending';
-      await this.acceptTransfer(transferId, lastChunk + 1);
+      await this.acceptTransfer(transferId, missing[0] ?? transfer.totalChunks, missing);
     } else {
-      // For sender: find the last acknowledged chunk and resend offer
-      const lastAcked = Math.max(...Array.from(transfer.receivedChunks), -1);
+      // For sender: find the first unacknowledged chunk and resend offer
+      let firstMissing = 0;
+      while (transfer.receivedChunks.has(firstMissing)) firstMissing++;
       const filePath = this.filePaths.get(transferId);
       if (!filePath) throw new Error('File path not found');
       
-      const offer = createMessage<OfferPayload>('offer', transferId, this.config.botId, transfer.peerId, {
-        filename: transfer.filename,
-        size: transfer.size,
-        mimeType: transfer.mimeType,
-        hash: transfer.hash,
-        chunkSize: transfer.chunkSize,
-        totalChunks: transfer.totalChunks,
-        secret: this.getPeerSecret(transfer.peerId),
-        secretTTL: this.config.secretTTL ? Date.now() + this.config.secretTTL : undefined,
-        resumeFrom: lastAcked + 1
-      });
+      // The file may have changed while the transfer was interrupted
+      if (transfer.manifest) {
+        if ((await getDirectoryInfo(filePath)).hash !== transfer.hash) {
+          throw new Error('Source directory changed since transfer started');
+        }
+      } else if (!this.fileHandles.has(transferId)) {
+        const fileInfo = await getFileInfo(filePath, transfer.chunkSize);
+        if (fileInfo.hash !== transfer.hash) {
+          throw new Error('Source file changed since transfer started');
+        }
+      }
+      
+      const offer = this.createOffer(transfer, firstMissing);
       
       transfer.state = 'pending';
+      transfer.updatedAt = Date.now();
+      await this.persist(transfer);
       await this.send(transfer.peerId, offer);
+      this.watchOffer(transfer, firstMissing);
       this.emit('transfer-resumed', transfer);
     }
   }
@@ -0,0 +1,475 @@
+/**
+ * OCFT - Transports
+ * Carry OCFT messages between nodes: in-memory loopback, line-based stdio, WebSocket and relay
+ */
+
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { OCFT_PREFIX, OCFT_FRAGMENT_PREFIX, MAX_BINARY_CHUNK_SIZE } from './protocol.js';
+
+// Incoming message callback; from is the sender the channel reports ('' if it cannot tell)
+export type MessageHandler = (from: string, message: string) => Promise<void> | void;
+export type BinaryHandler = (from: string, data: Buffer) => Promise<void> | void;
+
+export interface Transport {
+  send(to: string, message: string): Promise<void>;
+  onMessage(handler: MessageHandler): void;  // One handler per transport (a new one replaces it)
+  readonly maxMessageChars?: number;         // Longest message in characters (undefined: no limit)
+  close(): Promise<void>;
+  // Raw binary frames, only on transports that set binary (direct connections and relays)
+  readonly binary?: boolean;
+  readonly relay?: string;                   // Relay URL binary frames go through (undefined: direct)
+  sendBinary?(to: string, data: Buffer): Promise<void>;
+  onBinary?(handler: BinaryHandler): void;
+}
+
+// Shared plumbing: size checks and in-order delivery to the handler
+abstract class BaseTransport implements Transport {
+  readonly maxMessageChars?: number;
+  readonly binary: boolean = false;
+  private handler: MessageHandler | null = null;
+  private binaryHandler: BinaryHandler | null = null;
+  private held: { from: string; message: string | Buffer }[] = []; // Not yet handled, oldest first
+  private queue: Promise<void> = Promise.resolve();
+  
+  constructor(maxMessageChars?: number) {
+    this.maxMessageChars = maxMessageChars;
+  }
+  
+  abstract send(to: string, message: string): Promise<void>;
+  abstract close(): Promise<void>;
+  
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+    this.release();
+  }
+  
+  onBinary(handler: BinaryHandler): void {
+    this.binaryHandler = handler;
+    this.release();
+  }
+  
+  // Handle messages one at a time so chunks and acks keep their order
+  protected deliver(from: string, message: string): void {
+    this.enqueue(from, message);
+  }
+  
+  // Binary frames share the queue: a chunk must not overtake the message sent before it
+  protected deliverBinary(from: string, data: Buffer): void {
+    this.enqueue(from, data);
+  }
+  
+  private enqueue(from: string, message: string | Buffer): void {
+    this.held.push({ from, message });
+    this.release();
+  }
+  
+  // Messages wait in order until a handler is set (e.g. frames a relay held for us
+  // arrive right after connecting); those nobody handles are dropped after that
+  private release(): void {
+    this.queue = this.queue.then(async () => {
+      while (this.held.length && (this.handler || this.binaryHandler)) {
+        const { from, message } = this.held.shift()!;
+        try {
+          if (typeof message === 'string') {
+            await this.handler?.(from, message);
+          } else {
+            await this.binaryHandler?.(from, message);
+          }
+        } catch (err) {
+          console.error(`OCFT message from ${from || 'unknown peer'} failed: ${(err as Error).message}`);
+        }
+      }
+    });
+  }
+  
+  protected checkSize(message: string): void {
+    if (this.maxMessageChars !== undefined && message.length > this.maxMessageChars) {
+      throw new Error(`Message too large for transport: ${message.length} > ${this.maxMessageChars} characters`);
+    }
+  }
+}
+
+// ============ LOOPBACK ============
+
+export interface LoopbackOptions {
+  maxMessageChars?: number;
+  binary?: boolean;         // Offer binary frames like a direct connection (default: text only, like chat)
+}
+
+// In-memory network for tests and demos: every connected node can reach every other
+export class LoopbackNetwork {
+  private nodes: Map<string, LoopbackTransport> = new Map();
+  private options: LoopbackOptions;
+  
+  constructor(options: LoopbackOptions = {}) {
+    this.options = options;
+  }
+  
+  connect(nodeId: string): LoopbackTransport {
+    if (this.nodes.has(nodeId)) {
+      throw new Error(`Node already connected: ${nodeId}`);
+    }
+    const transport = new LoopbackTransport(this, nodeId, this.options);
+    this.nodes.set(nodeId, transport);
+    return transport;
+  }
+  
+  // Deliver asynchronously, like a real network
+  route(from: string, to: string, message: string | Buffer): void {
+    const target = this.nodes.get(to);
+    if (!target) {
+      throw new Error(`Unknown node: ${to}`);
+    }
+    setImmediate(() => target.receive(from, message));
+  }
+  
+  disconnect(nodeId: string): void {
+    this.nodes.delete(nodeId);
+  }
+}
+
+export class LoopbackTransport extends BaseTransport {
+  private network: LoopbackNetwork | null;
+  readonly nodeId: string;
+  readonly binary: boolean;
+  
+  constructor(network: LoopbackNetwork, nodeId: string, options: LoopbackOptions = {}) {
+    super(options.maxMessageChars);
+    this.network = network;
+    this.nodeId = nodeId;
+    this.binary = !!options.binary;
+  }
+  
+  async send(to: string, message: string): Promise<void> {
+    if (!this.network) throw new Error('Transport closed');
+    this.checkSize(message);
+    this.network.route(this.nodeId, to, message);
+  }
+  
+  async sendBinary(to: string, data: Buffer): Promise<void> {
+    if (!this.network) throw new Error('Transport closed');
+    if (!this.binary) throw new Error('Binary frames not enabled on this network');
+    this.network.route(this.nodeId, to, Buffer.from(data));
+  }
+  
+  receive(from: string, message: string | Buffer): void {
+    if (!this.network) return;
+    if (typeof message === 'string') {
+      this.deliver(from, message);
+    } else {
+      this.deliverBinary(from, message);
+    }
+  }
+  
+  async close(): Promise<void> {
+    this.network?.disconnect(this.nodeId);
+    this.network = null;
+  }
+}
+
+// ============ LINES ============
+
+export interface LineTransportOptions {
+  maxMessageChars?: number;
+  onClose?: () => void;     // E.g. stop a bridge process
+}
+
+// Line-based transport: each line is "<peerId> <OCFT message>".
+// Outgoing lines name the recipient, incoming lines the sender (the bridge rewrites them);
+// incoming lines may omit the peer ID (bare OCFT message).
+export class LineTransport extends BaseTransport {
+  private rl: Interface;
+  private output: Writable;
+  private onClose?: () => void;
+  
+  constructor(input: Readable, output: Writable, options: LineTransportOptions = {}) {
+    super(options.maxMessageChars);
+    this.output = output;
+    this.onClose = options.onClose;
+    
+    this.rl = createInterface({ input, crlfDelay: Infinity });
+    this.rl.on('line', (line) => {
+      const text = line.trim();
+      if (!text) return;
+      
+      const space = text.indexOf(' ');
+      const hasPeer = space > 0 && !text.startsWith(OCFT_PREFIX) && !text.startsWith(OCFT_FRAGMENT_PREFIX);
+      this.deliver(hasPeer ? text.slice(0, space) : '', hasPeer ? text.slice(space + 1) : text);
+    });
+  }
+  
+  async send(to: string, message: string): Promise<void> {
+    this.checkSize(message);
+    
+    // Respect backpressure so large transfers do not buffer in memory
+    if (!this.output.write(`${to} ${message}\n`)) {
+      await new Promise<void>((resolve) => this.output.once('drain', resolve));
+    }
+  }
+  
+  async close(): Promise<void> {
+    this.rl.close();
+    this.onClose?.();
+  }
+}
+
+// ============ WEBSOCKET ============
+
+const WS_MAX_PAYLOAD = 100 * 1024 * 1024; // 100MB (ws default) unless a message limit is set
+const WS_BINARY_OVERHEAD = 64 * 1024;      // Envelope and chunk header around a binary chunk
+
+// One WebSocket text frame per message. Binary frames carry the same envelope
+// as "envelope length (uint32 BE) | envelope JSON ({ from, to }) | data".
+export interface WebSocketFrame {
+  from: string;
+  to: string;
+  message: string;
+}
+
+// Error a relay reports back to a sender instead of forwarding its frame
+export interface RelayNotice {
+  error: string;
+  to?: string;
+}
+
+export interface WebSocketTransportOptions {
+  nodeId: string;           // Our ID, sent with every frame
+  maxMessageChars?: number;
+  token?: string;           // Relay token (connect only)
+}
+
+// Clients announce their ID on connect; relays authenticate it (see relay.ts)
+export const NODE_ID_HEADER = 'x-ocft-node';
+
+// Direct connection over WebSocket. A client talks to one server; a server accepts any
+// number of peers and routes replies by the ID each peer sends in its frames.
+// Claimed IDs are not authenticated here: OCFT MACs protect the messages themselves.
+export class WebSocketTransport extends BaseTransport {
+  readonly binary = true;
+  private nodeId: string;
+  private server: WebSocketServer | null = null;
+  private client: WebSocket | null = null;
+  private peers: Map<string, WebSocket> = new Map(); // peerId -> socket (server side)
+  
+  private constructor(options: WebSocketTransportOptions) {
+    super(options.maxMessageChars);
+    this.nodeId = options.nodeId;
+  }
+  
+  // Connect to a listening node (or relay)
+  static async connect(url: string, options: WebSocketTransportOptions): Promise<WebSocketTransport> {
+    const transport = new WebSocketTransport(options);
+    const headers: Record<string, string> = { [NODE_ID_HEADER]: options.nodeId };
+    if (options.token) headers.authorization = `Bearer ${options.token}`;
+    const socket = new WebSocket(url, { maxPayload: transport.maxPayload(), headers });
+    transport.client = socket;
+    transport.attach(socket);  // Before open: a relay may send held frames right away
+    
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    socket.on('error', (err) => console.error(`WebSocket ${url}: ${err.message}`));
+    return transport;
+  }
+  
+  // Accept connections from peers
+  static async listen(
+    port: number,
+    options: WebSocketTransportOptions & { host?: string }
+  ): Promise<WebSocketTransport> {
+    const transport = new WebSocketTransport(options);
+    const server = new WebSocketServer({ port, host: options.host, maxPayload: transport.maxPayload() });
+    
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+    
+    transport.server = server;
+    server.on('connection', (socket) => {
+      // Oversized or malformed frames from a peer end its connection, not the process
+      socket.on('error', () => socket.terminate());
+      transport.attach(socket);
+    });
+    return transport;
+  }
+  
+  // Port the server is listening on (useful with port 0)
+  get port(): number | undefined {
+    const address = this.server?.address();
+    return typeof address === 'object' && address ? address.port : undefined;
+  }
+  
+  async send(to: string, message: string): Promise<void> {
+    this.checkSize(message);
+    
+    const frame: WebSocketFrame = { from: this.nodeId, to, message };
+    await this.write(to, JSON.stringify(frame));
+  }
+  
+  async sendBinary(to: string, data: Buffer): Promise<void> {
+    await this.write(to, encodeBinaryFrame(this.nodeId, to, data));
+  }
+  
+  async close(): Promise<void> {
+    this.client?.close();
+    for (const socket of this.peers.values()) socket.close();
+    this.peers.clear();
+    
+    const server = this.server;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+  
+  private async write(to: string, data: string | Buffer): Promise<void> {
+    const socket = this.client ?? this.peers.get(to);
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      throw new Error(`No open connection to ${to}`);
+    }
+    
+    await new Promise<void>((resolve, reject) => {
+      socket.send(data, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+  
+  private attach(socket: WebSocket): void {
+    socket.on('message', (data: RawData, isBinary: boolean) => {
+      const buffer = toBuffer(data);
+      const notice = isBinary ? null : parseNotice(buffer.toString());
+      if (notice) {
+        console.error(`OCFT relay: ${notice.error}${notice.to ? ` (to ${notice.to})` : ''}`);
+        return;
+      }
+      
+      // The socket takes frames up to the largest binary chunk; text ones answer to the message limit
+      if (!isBinary && buffer.length > this.maxTextFrame()) {
+        socket.close(1009, 'Message too large');
+        return;
+      }
+      
+      const frame = isBinary ? parseBinaryFrame(buffer) : parseFrame(buffer.toString());
+      if (!frame || frame.to !== this.nodeId) return;
+      
+      // Server: replies to this peer go over the socket it last wrote from
+      if (this.server) this.peers.set(frame.from, socket);
+      if (typeof frame.message === 'string') {
+        this.deliver(frame.from, frame.message);
+      } else {
+        this.deliverBinary(frame.from, frame.message);
+      }
+    });
+    socket.on('close', () => {
+      for (const [peerId, peer] of this.peers) {
+        if (peer === socket) this.peers.delete(peerId);
+      }
+    });
+  }
+  
+  // With a message limit, binary chunks still have to fit
+  private maxPayload(): number {
+    return this.maxMessageChars !== undefined
+      ? Math.max(this.maxTextFrame(), MAX_BINARY_CHUNK_SIZE + WS_BINARY_OVERHEAD)
+      : WS_MAX_PAYLOAD;
+  }
+  
+  // Text frames are JSON around the message, so allow some room over the message limit
+  private maxTextFrame(): number {
+    return this.maxMessageChars !== undefined ? this.maxMessageChars * 2 + 1024 : WS_MAX_PAYLOAD;
+  }
+}
+
+// ws hands out Buffers, ArrayBuffers or fragment lists
+export function toBuffer(data: RawData): Buffer {
+  return Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+}
+
+// Binary frame: envelope length (uint32 BE) | envelope JSON | data
+export function encodeBinaryFrame(from: string, to: string, data: Buffer): Buffer {
+  const envelope = Buffer.from(JSON.stringify({ from, to }));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(envelope.length);
+  return Buffer.concat([length, envelope, data]);
+}
+
+// Parse a binary frame into its envelope and data; null if malformed
+export function parseBinaryFrame(data: Buffer): { from: string; to: string; message: Buffer } | null {
+  if (data.length < 4) return null;
+  const end = 4 + data.readUInt32BE(0);
+  if (end > data.length) return null;
+  
+  const envelope = parseFrame(data.subarray(4, end).toString(), false);
+  return envelope ? { from: envelope.from, to: envelope.to, message: data.subarray(end) } : null;
+}
+
+// Parse and validate a frame; null if malformed
+export function parseFrame(data: string, withMessage = true): WebSocketFrame | null {
+  try {
+    const frame = JSON.parse(data);
+    if (typeof frame?.from !== 'string' || typeof frame.to !== 'string') return null;
+    if (withMessage && typeof frame.message !== 'string') {
+      return null;
+    }
+    return frame;
+  } catch {
+    return null;
+  }
+}
+
+function parseNotice(data: string): RelayNotice | null {
+  try {
+    const notice = JSON.parse(data);
+    return typeof notice?.error === 'string' ? notice : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============ RELAY ============
+
+export interface RelayTransportOptions {
+  nodeId: string;
+  token?: string;           // Shared token the relay requires, if any
+}
+
+// Chat for the handshake, a relay server for chunk data: text messages go over the chat
+// transport and binary frames through the relay. Peers only send chunks this way after
+// agreeing on the relay in the offer/accept exchange; otherwise they stay on chat.
+export class RelayTransport extends BaseTransport {
+  readonly binary = true;
+  readonly relay: string;
+  private chat: Transport;
+  private socket: WebSocketTransport;
+  
+  private constructor(chat: Transport, socket: WebSocketTransport, relay: string) {
+    super(chat.maxMessageChars);
+    this.chat = chat;
+    this.socket = socket;
+    this.relay = relay;
+    
+    chat.onMessage((from, message) => this.deliver(from, message));
+    socket.onMessage((from, message) => this.deliver(from, message));
+    socket.onBinary((from, data) => this.deliverBinary(from, data));
+  }
+  
+  static async connect(chat: Transport, url: string, options: RelayTransportOptions): Promise<RelayTransport> {
+    const socket = await WebSocketTransport.connect(url, options);
+    return new RelayTransport(chat, socket, new URL(url).href);
+  }
+  
+  async send(to: string, message: string): Promise<void> {
+    await this.chat.send(to, message);
+  }
+  
+  async sendBinary(to: string, data: Buffer): Promise<void> {
+    await this.socket.sendBinary(to, data);
+  }
+  
+  async close(): Promise<void> {
+    await this.socket.close();
+    await this.chat.close();
+  }
+}
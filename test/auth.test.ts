@@ -0,0 +1,150 @@
+/**
+ * Authentication: only a fresh proof of the receiver's secret gets an offer accepted, and
+ * messages of an authenticated transfer must carry a valid MAC
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransferManager } from '../src/transfer.js';
+import { LoopbackNetwork } from '../src/transport.js';
+import { computeOfferProof, computeMessageMac, deriveMessageKey, verifyOfferProof } from '../src/auth.js';
+import { createHash } from 'crypto';
+import {
+  OCFTMessage, OfferPayload, ChunkPayload, TransferInfo, createMessage, decodeFromChat, encodeForChat
+} from '../src/protocol.js';
+
+const RECEIVER_SECRET = 'receiver-secret';
+
+// Sign an offer the way a sender knowing the receiver's secret would
+function signOffer(msg: OCFTMessage): void {
+  (msg.payload as OfferPayload).proof = computeOfferProof(RECEIVER_SECRET, msg);
+  msg.mac = computeMessageMac(deriveMessageKey(RECEIVER_SECRET, msg.transferId), msg);
+}
+
+const DATA = Buffer.alloc(1000, 7);
+
+// Send one file from a sender that knows the receiver's secret; tamper rewrites what the sender
+// sends and may return extra copies to deliver after it
+async function sendWithProof(tamper: (msg: OCFTMessage) => OCFTMessage[] | void) {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-auth-'));
+  await mkdir(join(dir, 'in'));
+  await writeFile(join(dir, 'data.bin'), DATA);
+  
+  const network = new LoopbackNetwork();
+  const senderTransport = network.connect('sender');
+  const send = senderTransport.send.bind(senderTransport);
+  senderTransport.send = async (to, message) => {
+    const msg = decodeFromChat(message);
+    if (!msg) return send(to, message);
+    const copies = tamper(msg) || [];
+    await send(to, encodeForChat(msg));
+    for (const copy of copies) await send(to, encodeForChat(copy));
+  };
+  
+  const sender = new TransferManager({
+    botId: 'sender', secret: 'sender-secret', downloadDir: dir, store: false, pins: false,
+    trustedPeers: [{ id: 'receiver', secret: RECEIVER_SECRET }], chunkSize: 100, ackTimeout: 100, maxRetries: 2
+  }, senderTransport);
+  const receiver = new TransferManager({
+    botId: 'receiver', secret: RECEIVER_SECRET, downloadDir: join(dir, 'in'), store: false, pins: false,
+    chunkCache: false
+  }, network.connect('receiver'));
+  
+  const offers: TransferInfo[] = [];
+  const warnings: string[] = [];
+  receiver.on('offer-received', transfer => offers.push(transfer));
+  receiver.on('security-warning', ({ reason }) => warnings.push(reason));
+  
+  try {
+    const done = new Promise<{ event: string; transfer: TransferInfo }>(resolve => {
+      sender.on('transfer-completed', transfer => resolve({ event: 'completed', transfer }));
+      sender.on('transfer-rejected', transfer => resolve({ event: 'rejected', transfer }));
+      sender.on('transfer-failed', transfer => resolve({ event: 'failed', transfer }));
+    });
+    await sender.sendFile('receiver', join(dir, 'data.bin'));
+    const result = await done;
+    const received = result.event === 'completed' ? await readFile(join(dir, 'in', 'data.bin')) : undefined;
+    return { ...result, offers, warnings, received };
+  } finally {
+    await sender.close();
+    await receiver.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('offer proofs are bound to the receiver secret and the offer they sign', () => {
+  const msg = createMessage<Partial<OfferPayload>>('offer', 'transfer-1', 'sender', 'receiver', { hash: 'abc' });
+  signOffer(msg);
+  assert.ok(verifyOfferProof(RECEIVER_SECRET, msg));
+  assert.equal(verifyOfferProof('other-secret', msg), false);
+  
+  for (const change of [{ to: 'someone-else' }, { timestamp: msg.timestamp + 1 }, { transferId: 'transfer-2' }]) {
+    assert.equal(verifyOfferProof(RECEIVER_SECRET, { ...msg, ...change }), false);
+  }
+  const proof = (msg.payload as OfferPayload).proof;
+  assert.equal(verifyOfferProof(RECEIVER_SECRET, { ...msg, payload: { hash: 'abd', proof } }), false);
+});
+
+test('a valid proof gets the offer auto-accepted', async () => {
+  const { event, offers } = await sendWithProof(() => {});
+  assert.equal(event, 'completed');
+  assert.equal(offers.length, 1);
+});
+
+test('an offer with a bad proof is rejected without reaching the user', async () => {
+  const { event, transfer, offers } = await sendWithProof(msg => {
+    if (msg.type !== 'offer') return;
+    (msg.payload as OfferPayload).proof = computeOfferProof('guessed-secret', msg);
+  });
+  assert.equal(event, 'rejected');
+  assert.equal(transfer.error, 'Invalid or expired secret proof');
+  assert.deepEqual(offers, []);
+});
+
+test('a correctly signed offer outside the proof window is rejected as expired', async () => {
+  const { event, transfer, offers } = await sendWithProof(msg => {
+    if (msg.type !== 'offer') return;
+    msg.timestamp -= 10 * 60 * 1000;
+    signOffer(msg);
+  });
+  assert.equal(event, 'rejected');
+  assert.equal(transfer.error, 'Invalid or expired secret proof');
+  assert.deepEqual(offers, []);
+});
+
+test('a replayed offer is dropped before it touches any state', async () => {
+  const { event, offers, warnings } = await sendWithProof(msg => {
+    if (msg.type === 'offer') return [structuredClone(msg)];
+  });
+  assert.equal(event, 'completed');
+  assert.equal(offers.length, 1);
+  assert.deepEqual(warnings, ['Replayed offer']);
+});
+
+test('tampered and unsigned messages of an authenticated transfer are dropped', async () => {
+  const tampered = new Set<number>();
+  const { event, warnings, received } = await sendWithProof(msg => {
+    if (msg.type !== 'chunk') return;
+    const payload = msg.payload as ChunkPayload;
+    if (tampered.has(payload.index)) return;
+    tampered.add(payload.index);
+    
+    // Chunk 0 keeps its MAC but carries other data with a matching hash; chunk 1 loses its MAC
+    if (payload.index === 0) {
+      const forged = Buffer.alloc(100, 1);
+      payload.data = forged.toString('base64');
+      payload.hash = createHash('sha256').update(forged).digest('hex');
+      delete payload.compressed;
+    } else if (payload.index === 1) {
+      delete msg.mac;
+    }
+  });
+  
+  // Both were resent intact after the ack timeout
+  assert.equal(event, 'completed');
+  assert.deepEqual(received, DATA);
+  assert.deepEqual(warnings, ['Invalid or missing MAC', 'Invalid or missing MAC']);
+});
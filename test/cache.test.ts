@@ -0,0 +1,77 @@
+/**
+ * Chunk cache: a re-sent, modified file only transfers the content-defined chunks that changed
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { mkdtemp, mkdir, writeFile, readFile, readdir, stat, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransferManager } from '../src/transfer.js';
+import { LoopbackNetwork } from '../src/transport.js';
+import { FileChunkCache } from '../src/cache.js';
+import { TransferInfo, decodeFromChat } from '../src/protocol.js';
+
+test('re-sending a modified file reuses the cached chunks', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-cache-'));
+  await mkdir(join(dir, 'in'));
+  const first = randomBytes(64 * 1024);
+  const second = Buffer.from(first);
+  randomBytes(100).copy(second, 30000);
+  
+  // Count the chunks the sender puts on the wire
+  const network = new LoopbackNetwork();
+  const senderTransport = network.connect('sender');
+  const send = senderTransport.send.bind(senderTransport);
+  let chunksSent = 0;
+  senderTransport.send = async (to, message) => {
+    if (decodeFromChat(message)?.type === 'chunk') chunksSent++;
+    return send(to, message);
+  };
+  
+  const sender = new TransferManager({
+    botId: 'sender', secret: 'sender-secret', downloadDir: dir, store: false, pins: false,
+    chunking: 'content', chunkSize: 4096
+  }, senderTransport);
+  const receiver = new TransferManager({
+    botId: 'receiver', secret: 'receiver-secret', downloadDir: join(dir, 'in'), store: false, pins: false,
+    chunkCache: new FileChunkCache(join(dir, 'cache')), autoAccept: true,
+    trustedPeers: [{ id: 'sender', secret: 'unused' }]
+  }, network.connect('receiver'));
+  
+  let reused = 0;
+  receiver.on('chunks-reused', ({ count }) => reused += count);
+  
+  const sendVersion = async (data: Buffer): Promise<TransferInfo> => {
+    await writeFile(join(dir, 'data.bin'), data);
+    const done = new Promise<TransferInfo>((resolve, reject) => {
+      receiver.once('transfer-completed', resolve);
+      sender.once('transfer-failed', transfer => reject(new Error(transfer.error)));
+    });
+    chunksSent = 0;
+    await sender.sendFile('receiver', join(dir, 'data.bin'));
+    return done;
+  };
+  
+  try {
+    const original = await sendVersion(first);
+    assert.equal(chunksSent, original.totalChunks);
+    assert.equal(reused, 0);
+    
+    const modified = await sendVersion(second);
+    assert.ok(reused > 0);
+    assert.equal(chunksSent + reused, modified.totalChunks);
+    assert.ok(chunksSent <= 3, `${chunksSent} of ${modified.totalChunks} chunks sent again`);
+    assert.deepEqual(await readFile(modified.localPath!), second);
+    
+    // Cached chunks are plaintext: owner-only directory and files
+    assert.equal((await stat(join(dir, 'cache'))).mode & 0o777, 0o700);
+    const [chunk] = await readdir(join(dir, 'cache'));
+    assert.equal((await stat(join(dir, 'cache', chunk))).mode & 0o777, 0o600);
+  } finally {
+    await sender.close();
+    await receiver.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
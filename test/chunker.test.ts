@@ -0,0 +1,37 @@
+/**
+ * ChunkAssembler: partial file handling
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChunkAssembler, sha256 } from '../src/chunker.js';
+
+test('assembler creates a missing download directory', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-chunker-'));
+  const data = Buffer.from('hello');
+  const output = join(dir, 'nested', 'downloads', 'hello.txt');
+  
+  const assembler = new ChunkAssembler(output, sha256(data), 1, 1024);
+  assert.equal(await assembler.addChunk(0, data, sha256(data)), true);
+  assert.deepEqual(await assembler.assemble(), { success: true });
+  assert.ok((await readFile(output)).equals(data));
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('assembler recovers once a failed open can succeed', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-chunker-'));
+  const data = Buffer.from('hello');
+  const blocker = join(dir, 'blocked');
+  await writeFile(blocker, 'not a directory');
+  
+  const assembler = new ChunkAssembler(join(blocker, 'hello.txt'), sha256(data), 1, 1024);
+  await assert.rejects(assembler.addChunk(0, data, sha256(data)), /Cannot open partial file/);
+  
+  await rm(blocker);
+  assert.equal(await assembler.addChunk(0, data, sha256(data)), true);
+  assert.deepEqual(await assembler.assemble(), { success: true });
+  await rm(dir, { recursive: true, force: true });
+});
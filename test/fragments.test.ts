@@ -0,0 +1,78 @@
+/**
+ * Fragments: messages split for short-message channels come back whole, and what is held
+ * for incomplete ones is bounded in time and size
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FragmentBuffer } from '../src/fragments.js';
+import { Fragment, createMessage, decodeFromChat, parseFragment, splitForChat } from '../src/protocol.js';
+
+// A message split into fragments of at most 100 characters
+function fragmentsOf(text: string): Fragment[] {
+  const msg = createMessage('chunk', 'transfer-1', 'sender', 'receiver', { index: 0, data: text, hash: '' });
+  return splitForChat(msg, 100).map(part => parseFragment(part)!);
+}
+
+test('fragments reassemble in any order and duplicates are ignored', () => {
+  const parts = fragmentsOf('x'.repeat(500));
+  assert.ok(parts.length > 3);
+  
+  const buffer = new FragmentBuffer();
+  const shuffled = [...parts].reverse();
+  for (const part of shuffled.slice(0, -1)) {
+    assert.equal(buffer.add('sender', part), null);
+    assert.equal(buffer.add('sender', part), null);
+  }
+  
+  // The same message ID from another peer is a different message
+  assert.equal(buffer.add('mallory', shuffled.at(-1)!), null);
+  
+  const whole = buffer.add('sender', shuffled.at(-1)!);
+  assert.equal((decodeFromChat(whole!)!.payload as { data: string }).data, 'x'.repeat(500));
+  
+  // Late copies of a completed message do not start it again
+  for (const part of parts) assert.equal(buffer.add('sender', part), null);
+});
+
+test('parts disagreeing on the count and malformed fragments are refused', () => {
+  const parts = fragmentsOf('y'.repeat(300));
+  const buffer = new FragmentBuffer();
+  
+  assert.equal(buffer.add('sender', parts[0]), null);
+  assert.equal(buffer.add('sender', { ...parts[1], total: parts.length + 1 }), null);
+  for (const part of parts.slice(1, -1)) assert.equal(buffer.add('sender', part), null);
+  assert.ok(buffer.add('sender', parts.at(-1)!));
+  
+  assert.equal(parseFragment('🔗OCFT2:abc:0/2:AAAA'), null);
+  assert.equal(parseFragment('🔗OCFT2:abc:3/2:AAAA'), null);
+  assert.equal(parseFragment('🔗OCFT2:abc:1/70000:AAAA'), null);
+  assert.equal(parseFragment('🔗OCFT2:a:b:1/2:AAAA'), null);
+});
+
+test('incomplete messages expire after the timeout', async () => {
+  const parts = fragmentsOf('z'.repeat(300));
+  const buffer = new FragmentBuffer(50);
+  
+  assert.equal(buffer.add('sender', parts[0]), null);
+  await new Promise(resolve => setTimeout(resolve, 100));
+  
+  // The first part was dropped, so the rest never completes the message
+  for (const part of parts.slice(1)) assert.equal(buffer.add('sender', part), null);
+  assert.ok(buffer.add('sender', parts[0]));
+});
+
+test('over the size limit the oldest incomplete message is given up', () => {
+  const older = fragmentsOf('a'.repeat(300));
+  const newer = fragmentsOf('b'.repeat(300));
+  const messageChars = newer.reduce((sum, part) => sum + part.data.length, 0);
+  const buffer = new FragmentBuffer(60 * 1000, messageChars);
+  
+  // Two parts of the older message plus all but one of the newer exceed the limit
+  assert.equal(buffer.add('sender', older[0]), null);
+  assert.equal(buffer.add('sender', older[1]), null);
+  for (const part of newer.slice(0, -1)) assert.equal(buffer.add('sender', part), null);
+  assert.ok(buffer.add('sender', newer.at(-1)!));
+  
+  for (const part of older.slice(2)) assert.equal(buffer.add('sender', part), null);
+});
@@ -0,0 +1,221 @@
+/**
+ * IPFS: gateway downloads and their verification, S3 provider objects, and senders waiting on
+ * the receiver's download
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, readFile, readdir, copyFile, stat, rm } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransferManager } from '../src/transfer.js';
+import { LoopbackNetwork } from '../src/transport.js';
+import {
+  IPFSConfig, downloadFromGateways, registerIPFSProvider, uploadToIPFS, unpinFromIPFS, getIPFSPinStatus
+} from '../src/ipfs.js';
+import { FilePinLedger } from '../src/pins.js';
+import { TransferInfo } from '../src/protocol.js';
+
+const CID = 'bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy';
+const CONTENT = Buffer.from('hello from a local IPFS gateway\n'.repeat(1000));
+const CONTENT_HASH = createHash('sha256').update(CONTENT).digest('hex');
+
+// Local gateway answering /ipfs/<CID> with the given body
+async function gateway(body: Buffer): Promise<{ server: Server; url: string; requests: string[] }> {
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    requests.push(req.url!);
+    if (req.url !== `/ipfs/${CID}`) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.end(body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/ipfs`, requests };
+}
+
+test('downloads a CID from the configured gateway and checks its hash', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-ipfs-'));
+  const good = await gateway(CONTENT);
+  
+  try {
+    const result = await downloadFromGateways(CID, { publicGateway: good.url, gateways: [] }, {
+      outputPath: join(dir, 'out.txt'), size: CONTENT.length, hash: CONTENT_HASH
+    });
+    
+    assert.equal(result.hash, CONTENT_HASH);
+    assert.equal(result.size, CONTENT.length);
+    assert.equal(result.source, `${good.url}/${CID}`);
+    assert.deepEqual(await readFile(join(dir, 'out.txt')), CONTENT);
+    assert.deepEqual(good.requests, [`/ipfs/${CID}`]);
+  } finally {
+    good.server.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('a tampered gateway response is rejected and the next gateway is tried', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-ipfs-'));
+  const tampered = Buffer.from(CONTENT);
+  tampered[100] ^= 1;
+  const bad = await gateway(tampered);
+  const good = await gateway(CONTENT);
+  const options = { outputPath: join(dir, 'out.txt'), size: CONTENT.length, hash: CONTENT_HASH };
+  
+  try {
+    // Only the tampered copy: nothing is left behind
+    await assert.rejects(
+      downloadFromGateways(CID, { publicGateway: bad.url, gateways: [] }, options),
+      /Hash mismatch/
+    );
+    assert.deepEqual(await readdir(dir), []);
+    
+    const result = await downloadFromGateways(CID, { publicGateway: bad.url, gateways: [good.url] }, options);
+    assert.equal(result.source, `${good.url}/${CID}`);
+    assert.deepEqual(await readFile(join(dir, 'out.txt')), CONTENT);
+  } finally {
+    bad.server.close();
+    good.server.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+// S3-compatible bucket that pins what it stores: objects by path, CID derived from the content
+async function pinningBucket(): Promise<{ server: Server; config: IPFSConfig; objects: Map<string, Buffer> }> {
+  const objects = new Map<string, Buffer>();
+  const cidOf = (body: Buffer) => `bafk${createHash('sha256').update(body).digest('hex').slice(0, 40)}`;
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const path = decodeURIComponent(new URL(req.url!, 'http://stub').pathname);
+    const object = objects.get(path);
+    
+    if (req.method === 'PUT') {
+      const body = Buffer.concat(chunks);
+      objects.set(path, body);
+      res.writeHead(200, { 'x-amz-meta-cid': cidOf(body) }).end();
+    } else if (req.method === 'HEAD') {
+      res.writeHead(object ? 200 : 404, object ? { 'x-amz-meta-cid': cidOf(object) } : {}).end();
+    } else if (req.method === 'DELETE') {
+      objects.delete(path);
+      res.writeHead(204).end();
+    } else {
+      res.writeHead(405).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, objects, config: { provider: 's3', endpoint, bucket: 'b', apiKey: 'key', apiSecret: 'secret' } };
+}
+
+test('S3 uploads of the same filename keep separate objects and unpin only their own', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-ipfs-'));
+  const { server, config, objects } = await pinningBucket();
+  await mkdir(join(dir, 'old'));
+  await mkdir(join(dir, 'new'));
+  await writeFile(join(dir, 'old', 'report.pdf'), 'first report');
+  await writeFile(join(dir, 'new', 'report.pdf'), 'second report');
+  
+  try {
+    const first = await uploadToIPFS(join(dir, 'old', 'report.pdf'), config);
+    const second = await uploadToIPFS(join(dir, 'new', 'report.pdf'), config);
+    assert.notEqual(first.key, second.key);
+    assert.equal(await getIPFSPinStatus(first, config), 'pinned');
+    
+    await unpinFromIPFS(first, config);
+    assert.equal(await getIPFSPinStatus(first, config), 'unpinned');
+    assert.equal(await getIPFSPinStatus(second, config), 'pinned');
+    
+    // A pin recorded by filename whose object now holds another upload is left alone
+    objects.set('/b/report.pdf', Buffer.from('third report'));
+    await unpinFromIPFS({ cid: first.cid, filename: 'report.pdf' }, config);
+    assert.ok(objects.has('/b/report.pdf'));
+  } finally {
+    server.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('the pin ledger is readable by the owner only', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-ipfs-'));
+  const path = join(dir, 'ocft', 'pins.json');
+  await mkdir(join(dir, 'ocft'));
+  await writeFile(path, '[]', { mode: 0o644 });
+  
+  try {
+    const ledger = new FilePinLedger(path);
+    await ledger.add({ cid: CID, url: '', size: 1, filename: 'a.txt', provider: 's3', uploadedAt: Date.now() });
+    assert.equal((await stat(path)).mode & 0o777, 0o600);
+    assert.equal((await ledger.list()).length, 1);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+// Provider whose downloads take downloadTime ms (copied from the uploaded file)
+let uploaded = '';
+let downloadTime = 0;
+registerIPFSProvider({
+  name: 'slow',
+  async upload(filePath) {
+    uploaded = filePath;
+    return { cid: CID, url: `https://ipfs.example/ipfs/${CID}`, size: 1000, filename: 'data.bin', provider: 'slow' };
+  },
+  async download(cid, config, options) {
+    await new Promise(resolve => setTimeout(resolve, downloadTime));
+    await copyFile(uploaded, options.outputPath);
+    return { cid, path: options.outputPath, size: 1000, hash: '', source: 'slow' };
+  },
+  async pin() {},
+  async unpin() {},
+  async status() { return 'pinned'; },
+});
+
+async function sendOverIPFS(ipfsDownloadTimeout: number): Promise<{ event: string; transfer: TransferInfo; elapsed: number }> {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-ipfs-'));
+  await mkdir(join(dir, 'in'));
+  await writeFile(join(dir, 'data.bin'), Buffer.alloc(1000, 7));
+  
+  const ipfs: IPFSConfig = { provider: 'slow', threshold: 0 };
+  const network = new LoopbackNetwork();
+  const sender = new TransferManager({
+    botId: 'sender', secret: 'sender-secret', downloadDir: dir, store: false, pins: false, ipfs,
+    completeTimeout: 50, maxRetries: 1, ipfsDownloadTimeout
+  }, network.connect('sender'));
+  const receiver = new TransferManager({
+    botId: 'receiver', secret: 'receiver-secret', downloadDir: join(dir, 'in'), store: false, pins: false, ipfs,
+    autoAccept: true, trustedPeers: [{ id: 'sender', secret: 'unused' }]
+  }, network.connect('receiver'));
+  
+  try {
+    const started = Date.now();
+    const done = new Promise<{ event: string; transfer: TransferInfo }>(resolve => {
+      sender.on('transfer-completed', transfer => resolve({ event: 'completed', transfer }));
+      sender.on('transfer-failed', transfer => resolve({ event: 'failed', transfer }));
+    });
+    await sender.sendFile('receiver', join(dir, 'data.bin'));
+    return { ...await done, elapsed: Date.now() - started };
+  } finally {
+    await sender.close();
+    await receiver.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('a download outlasting the retry schedule completes within ipfsDownloadTimeout', async () => {
+  downloadTime = 500; // Retries alone give up after 50 + 100ms
+  const { event } = await sendOverIPFS(2000);
+  assert.equal(event, 'completed');
+});
+
+test('a download that never finishes fails at ipfsDownloadTimeout', async () => {
+  downloadTime = 5000;
+  const { event, transfer, elapsed } = await sendOverIPFS(1000);
+  assert.equal(event, 'failed');
+  assert.match(transfer.error!, /No response from receiver/);
+  assert.ok(elapsed >= 1000 && elapsed < 3000);
+});
@@ -0,0 +1,92 @@
+/**
+ * A current node sending to a node that predates offer proofs and message MACs
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransferManager } from '../src/transfer.js';
+import { LoopbackNetwork, Transport } from '../src/transport.js';
+import {
+  OCFTMessage, OfferPayload, ChunkPayload, CompletePayload, createMessage, encodeForChat, decodeFromChat
+} from '../src/protocol.js';
+
+const OLD_SECRET = 'old-node-secret';
+
+// Speaks the 1.0 wire format: plaintext secret check (or autoAccept), unsigned replies, no negotiation
+function startBaselineNode(transport: Transport, nodeId: string, autoAccept: boolean): { received: () => Buffer } {
+  const chunks = new Map<number, Buffer>();
+  let offer: OfferPayload | undefined;
+  
+  const reply = async (msg: OCFTMessage, type: 'accept' | 'ack', payload: unknown) => {
+    const answer = createMessage(type, msg.transferId, nodeId, msg.from, payload);
+    answer.version = '1.0';
+    await transport.send(msg.from, encodeForChat(answer));
+  };
+  
+  transport.onMessage(async (_from, text) => {
+    const msg = decodeFromChat(text);
+    if (!msg || msg.to !== nodeId) return;
+    
+    if (msg.type === 'offer') {
+      offer = msg.payload as OfferPayload;
+      if (autoAccept || offer.secret === OLD_SECRET) await reply(msg, 'accept', { ready: true, resumeFrom: offer.resumeFrom });
+    } else if (msg.type === 'chunk') {
+      const payload = msg.payload as ChunkPayload;
+      const data = Buffer.from(payload.data!, 'base64');
+      const valid = createHash('sha256').update(data).digest('hex') === payload.hash;
+      if (valid) chunks.set(payload.index, data);
+      await reply(msg, 'ack', { index: payload.index, received: valid });
+    } else if (msg.type === 'complete') {
+      const payload = msg.payload as CompletePayload;
+      const file = Buffer.concat([...chunks.keys()].sort((a, b) => a - b).map(i => chunks.get(i)!));
+      const valid = createHash('sha256').update(file).digest('hex') === payload.hash;
+      await reply(msg, 'ack', { index: -1, received: valid });
+    }
+  });
+  
+  return { received: () => Buffer.concat([...chunks.keys()].sort((a, b) => a - b).map(i => chunks.get(i)!)) };
+}
+
+async function sendToBaseline(legacySecrets: boolean) {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-legacy-'));
+  const data = Buffer.alloc(100 * 1024, 'baseline ');
+  await writeFile(join(dir, 'notes.txt'), data);
+  
+  const network = new LoopbackNetwork();
+  const oldNode = startBaselineNode(network.connect('old-node'), 'old-node', !legacySecrets);
+  const manager = new TransferManager({
+    botId: 'new-node', secret: 'new-node-secret', downloadDir: dir, store: false, pins: false, chunkCache: false,
+    trustedPeers: [{ id: 'old-node', secret: OLD_SECRET }], legacySecrets, offerTimeout: 300, maxRetries: 1
+  }, network.connect('new-node'));
+  
+  const warnings: string[] = [];
+  manager.on('security-warning', ({ reason }) => warnings.push(reason));
+  const done = new Promise<string>(resolve => {
+    manager.on('transfer-completed', () => resolve('completed'));
+    manager.on('transfer-failed', () => resolve('failed'));
+  });
+  
+  const transferId = await manager.sendFile('old-node', join(dir, 'notes.txt'));
+  const state = await done;
+  await manager.close();
+  await rm(dir, { recursive: true, force: true });
+  return { state, warnings, transfer: manager.getTransfer(transferId)!, data, received: oldNode.received() };
+}
+
+test('sender takes unsigned replies from a node that predates MACs when legacySecrets is on', async () => {
+  const { state, warnings, transfer, data, received } = await sendToBaseline(true);
+  assert.equal(state, 'completed');
+  assert.deepEqual(warnings, []);
+  assert.equal(transfer.unsignedPeer, true);
+  assert.ok(received.equals(data));
+});
+
+test('sender still requires MACs from such a node without legacySecrets', async () => {
+  const { state, warnings } = await sendToBaseline(false);
+  assert.equal(state, 'failed');
+  assert.ok(warnings.includes('Invalid or missing MAC'));
+});
@@ -0,0 +1,80 @@
+/**
+ * Directory manifests: entries a peer sends can only land inside the download directory
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { mkdtemp, mkdir, writeFile, readFile, readdir, lstat, symlink, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { sanitizeManifest, extractEntry, getDirectoryInfo } from '../src/manifest.js';
+
+const HASH = '0'.repeat(64);
+
+test('manifest paths are confined to relative paths without traversal', () => {
+  const entries = sanitizeManifest([
+    { path: '../../etc/passwd', size: 1, mode: 0o644, hash: HASH },
+    { path: '/abs/file.txt', size: 2, mode: 0o600, hash: HASH },
+    { path: 'docs\\..\\..\\notes.txt', size: 3, mode: 0o644, hash: HASH }
+  ], 6);
+  assert.deepEqual(entries?.map(e => e.path), ['etc/passwd', 'abs/file.txt', 'docs/notes.txt']);
+  
+  // Entries that would collide once sanitized, or a file used as a directory, are refused
+  const entry = (path: string) => ({ path, size: 0, mode: 0o644, hash: HASH });
+  assert.equal(sanitizeManifest([entry('a/b'), entry('../a/b')], 0), null);
+  assert.equal(sanitizeManifest([entry('Read.me'), entry('read.ME')], 0), null);
+  assert.equal(sanitizeManifest([entry('a'), entry('a/b')], 0), null);
+  assert.equal(sanitizeManifest([entry('a')], 1), null);
+});
+
+test('extraction never follows a symlink out of the download directory', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-manifest-'));
+  const root = join(dir, 'download');
+  const outside = join(dir, 'outside');
+  await mkdir(root);
+  await mkdir(outside);
+  await writeFile(join(outside, 'target.txt'), 'untouched');
+  
+  // A directory kept from an earlier transfer holds links pointing outside
+  await symlink(outside, join(root, 'linked-dir'));
+  await symlink(join(outside, 'target.txt'), join(root, 'linked-file.txt'));
+  
+  const data = Buffer.from('payload');
+  const source = join(dir, 'stream.bin');
+  await writeFile(source, data);
+  const entry = (path: string) => ({
+    path, size: data.length, mode: 0o644, hash: createHash('sha256').update(data).digest('hex')
+  });
+  
+  try {
+    await assert.rejects(extractEntry(source, 0, entry('linked-dir/x.txt'), root), /Not a directory/);
+    assert.deepEqual(await readdir(outside), ['target.txt']);
+    
+    // A link in the file's own place is replaced, not written through
+    await extractEntry(source, 0, entry('linked-file.txt'), root);
+    assert.ok((await lstat(join(root, 'linked-file.txt'))).isFile());
+    assert.equal(await readFile(join(outside, 'target.txt'), 'utf8'), 'untouched');
+    
+    await assert.rejects(extractEntry(source, 0, entry('../outside/target.txt'), root), /escapes/);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('senders skip symlinks when listing a directory', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-manifest-'));
+  await mkdir(join(dir, 'share', 'sub'), { recursive: true });
+  await writeFile(join(dir, 'share', 'sub', 'a.txt'), 'a');
+  await writeFile(join(dir, 'secret.txt'), 'secret');
+  await symlink(join(dir, 'secret.txt'), join(dir, 'share', 'secret.txt'));
+  await symlink(dir, join(dir, 'share', 'parent'));
+  
+  try {
+    const info = await getDirectoryInfo(join(dir, 'share'));
+    assert.deepEqual(info.entries.map(e => e.path), ['sub/a.txt']);
+    assert.equal(info.size, 1);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
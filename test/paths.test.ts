@@ -0,0 +1,78 @@
+/**
+ * Received filenames: peers never pick where a file lands or what it looks like
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { sanitizeFilename, sanitizeRelativePath, resolveInside, resolveDownloadPath } from '../src/paths.js';
+
+test('filenames lose directories, traversal and absolute paths', () => {
+  assert.equal(sanitizeFilename('../../etc/passwd'), 'passwd');
+  assert.equal(sanitizeFilename('/etc/passwd'), 'passwd');
+  assert.equal(sanitizeFilename('C:\\Windows\\system.ini'), 'system.ini');
+  assert.equal(sanitizeFilename('dir/..'), 'file');
+  assert.equal(sanitizeFilename('..'), 'file');
+  assert.equal(sanitizeFilename(''), 'file');
+  assert.equal(sanitizeFilename('a<b>c:d|e?f*g"h.txt'), 'a_b_c_d_e_f_g_h.txt');
+  assert.equal(sanitizeFilename('notes.txt. . '), 'notes.txt');
+});
+
+test('control and bidi formatting characters are stripped', () => {
+  assert.equal(sanitizeFilename('a\x00b\x1fc\x7fd.txt'), 'abcd.txt');
+  assert.equal(sanitizeFilename('a\x85b\x9bc.txt'), 'abc.txt');
+  assert.equal(sanitizeFilename('invoice\u202Efdp.exe'), 'invoicefdp.exe');
+  assert.equal(sanitizeFilename('x\u2066y\u2069\u200Fz\u061C.pdf'), 'xyz.pdf');
+  assert.equal(sanitizeFilename('résumé 日本.pdf'), 'résumé 日本.pdf');
+});
+
+test('reserved device names are prefixed and long names keep their extension', () => {
+  assert.equal(sanitizeFilename('CON'), '_CON');
+  assert.equal(sanitizeFilename('nul.txt'), '_nul.txt');
+  assert.equal(sanitizeFilename('com1.tar.gz'), '_com1.tar.gz');
+  assert.equal(sanitizeFilename('console.log'), 'console.log');
+  
+  const long = sanitizeFilename(`${'a'.repeat(300)}.pdf`);
+  assert.equal(Buffer.byteLength(long), 255);
+  assert.ok(long.endsWith('.pdf'));
+});
+
+test('relative paths keep only safe segments', () => {
+  assert.equal(sanitizeRelativePath('docs/../../etc/passwd'), 'docs/etc/passwd');
+  assert.equal(sanitizeRelativePath('/abs\\win/./CON'), 'abs/win/_CON');
+  assert.equal(sanitizeRelativePath('../..'), 'file');
+});
+
+test('resolveInside refuses paths outside the directory', () => {
+  assert.equal(resolveInside('/downloads', 'a/b.txt'), '/downloads/a/b.txt');
+  assert.throws(() => resolveInside('/downloads', '../x'), /escapes/);
+  assert.throws(() => resolveInside('/downloads', '/etc/passwd'), /escapes/);
+  assert.throws(() => resolveInside('/downloads', '.'), /escapes/);
+});
+
+test('collision policies: rename, overwrite and reject', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-paths-'));
+  await writeFile(join(dir, 'report.pdf'), 'existing');
+  await writeFile(join(dir, 'report (1).pdf'), 'existing');
+  await writeFile(join(dir, 'draft.txt.ocft-part'), 'partial');
+  
+  try {
+    assert.deepEqual(resolveDownloadPath(dir, 'new.pdf'), { path: join(dir, 'new.pdf') });
+    assert.deepEqual(resolveDownloadPath(dir, '../report.pdf', 'rename'),
+      { path: join(dir, 'report (2).pdf'), collision: 'renamed' });
+    assert.deepEqual(resolveDownloadPath(dir, 'report.pdf', 'overwrite'),
+      { path: join(dir, 'report.pdf'), collision: 'overwritten' });
+    assert.equal(resolveDownloadPath(dir, 'report.pdf', 'reject'), null);
+    
+    // Partial files and paths claimed by other transfers count as taken
+    assert.equal(resolveDownloadPath(dir, 'draft.txt', 'reject'), null);
+    const reserved = new Set([join(dir, 'busy.bin')]);
+    assert.equal(resolveDownloadPath(dir, 'busy.bin', 'overwrite', reserved), null);
+    assert.deepEqual(resolveDownloadPath(dir, 'busy.bin', 'rename', reserved),
+      { path: join(dir, 'busy (1).bin'), collision: 'renamed' });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
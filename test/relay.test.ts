@@ -0,0 +1,90 @@
+/**
+ * Relay server: nodes authenticate with their own tokens and held frames are bounded
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { RelayServer, DroppedFrame } from '../src/relay.js';
+import { NODE_ID_HEADER } from '../src/transport.js';
+
+const NODES = { alice: 'alice-token', bob: 'bob-token', carol: 'carol-token' };
+
+// Connect as nodeId with a token; resolves with the socket or rejects with the HTTP status
+async function connect(relay: RelayServer, nodeId: string, token: string): Promise<WebSocket> {
+  const socket = new WebSocket(`ws://127.0.0.1:${relay.port}`, {
+    headers: { [NODE_ID_HEADER]: nodeId, authorization: `Bearer ${token}` }
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    socket.once('error', reject);
+  });
+  return socket;
+}
+
+// Next text frame a socket receives
+function nextFrame(socket: WebSocket): Promise<any> {
+  return new Promise(resolve => socket.once('message', (data) => resolve(JSON.parse(data.toString()))));
+}
+
+function send(socket: WebSocket, to: string, message: string): void {
+  socket.send(JSON.stringify({ from: 'ignored', to, message }));
+}
+
+test('nodes connect only with their own token', async () => {
+  const relay = await RelayServer.listen({ port: 0, host: '127.0.0.1', nodes: NODES });
+  
+  try {
+    await assert.rejects(connect(relay, 'bob', 'alice-token'), /HTTP 401/);
+    await assert.rejects(connect(relay, 'mallory', 'alice-token'), /HTTP 401/);
+    await assert.rejects(connect(relay, 'toString', ''), /HTTP 401/);
+    
+    const alice = await connect(relay, 'alice', 'alice-token');
+    assert.deepEqual(relay.listNodes(), ['alice']);
+    alice.close();
+  } finally {
+    await relay.close();
+  }
+});
+
+test('frames are held only for registered nodes and within the total queue limit', async () => {
+  const relay = await RelayServer.listen({
+    port: 0, host: '127.0.0.1', nodes: NODES, maxQueued: 1000, maxQueuedTotal: 1500
+  });
+  const dropped: DroppedFrame[] = [];
+  relay.on('frame-dropped', (frame: DroppedFrame) => dropped.push(frame));
+  
+  try {
+    const alice = await connect(relay, 'alice', 'alice-token');
+    
+    const unknown = nextFrame(alice);
+    send(alice, 'nobody', 'hi');
+    assert.deepEqual(await unknown, { error: 'Unknown node nobody', to: 'nobody' });
+    
+    // ~800 bytes for bob fit; ~800 more for carol fit her own queue but not the relay's
+    const full = nextFrame(alice);
+    send(alice, 'bob', 'b'.repeat(750));
+    send(alice, 'carol', 'c'.repeat(750));
+    assert.deepEqual(await full, { error: 'Relay queue full', to: 'carol' });
+    assert.deepEqual(dropped.map(d => d.to), ['nobody', 'carol']);
+    
+    // Held frames go to bob once he connects, stamped with the sender's real ID
+    const bob = new WebSocket(`ws://127.0.0.1:${relay.port}`, {
+      headers: { [NODE_ID_HEADER]: 'bob', authorization: 'Bearer bob-token' }
+    });
+    const frame = await nextFrame(bob);
+    assert.equal(frame.from, 'alice');
+    assert.equal(frame.message, 'b'.repeat(750));
+    
+    // Delivered frames no longer count against the total
+    send(alice, 'carol', 'c'.repeat(750));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(dropped.length, 2);
+    
+    alice.close();
+    bob.close();
+  } finally {
+    await relay.close();
+  }
+});
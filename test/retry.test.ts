@@ -0,0 +1,57 @@
+/**
+ * Sender retransmission: chunks the receiver rejects are retried with backoff, then fail
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransferManager } from '../src/transfer.js';
+import { LoopbackNetwork } from '../src/transport.js';
+import { ChunkPayload, TransferInfo, decodeFromChat, encodeForChat } from '../src/protocol.js';
+
+test('a chunk that never verifies fails the transfer after maxRetries backed-off resends', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-retry-'));
+  await mkdir(join(dir, 'in'));
+  await writeFile(join(dir, 'data.bin'), Buffer.alloc(1000, 7));
+  
+  // Corrupt every chunk in transit (no MAC: the sender does not know the receiver's secret)
+  const network = new LoopbackNetwork();
+  const senderTransport = network.connect('sender');
+  const send = senderTransport.send.bind(senderTransport);
+  const chunkSends: number[] = [];
+  senderTransport.send = async (to, message) => {
+    const msg = decodeFromChat(message);
+    if (msg?.type === 'chunk') {
+      chunkSends.push(Date.now());
+      const payload = msg.payload as ChunkPayload;
+      payload.data = Buffer.from('corrupted').toString('base64');
+      message = encodeForChat(msg);
+    }
+    return send(to, message);
+  };
+  
+  const sender = new TransferManager({
+    botId: 'sender', secret: 'sender-secret', downloadDir: dir, store: false, pins: false, maxRetries: 2
+  }, senderTransport);
+  const receiver = new TransferManager({
+    botId: 'receiver', secret: 'receiver-secret', downloadDir: join(dir, 'in'), store: false, pins: false,
+    chunkCache: false, autoAccept: true, trustedPeers: [{ id: 'sender', secret: 'unused' }]
+  }, network.connect('receiver'));
+  
+  try {
+    const failed = new Promise<TransferInfo>(resolve => sender.on('transfer-failed', resolve));
+    await sender.sendFile('receiver', join(dir, 'data.bin'));
+    const transfer = await failed;
+    
+    assert.match(transfer.error!, /Chunk 0 rejected by receiver/);
+    assert.equal(chunkSends.length, 3); // First send and maxRetries resends
+    assert.ok(chunkSends[1] - chunkSends[0] >= 900);
+    assert.ok(chunkSends[2] - chunkSends[1] >= 1900);
+  } finally {
+    await sender.close();
+    await receiver.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,107 @@
+/**
+ * Transfer journal: what a stopped node leaves behind for resume
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, readdir, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TransferManager } from '../src/transfer.js';
+import { LoopbackNetwork } from '../src/transport.js';
+import { FileTransferStore, StoredTransfer, TransferStore } from '../src/store.js';
+import { decodeFromChat } from '../src/protocol.js';
+
+// Keeps the last record saved for each transfer
+class MemoryStore implements TransferStore {
+  records: Map<string, StoredTransfer> = new Map();
+  
+  async load(): Promise<StoredTransfer[]> {
+    return Array.from(this.records.values());
+  }
+  
+  async save(transfer: StoredTransfer): Promise<void> {
+    this.records.set(transfer.id, structuredClone(transfer));
+  }
+  
+  async remove(transferId: string): Promise<void> {
+    this.records.delete(transferId);
+  }
+}
+
+test('close() saves chunk progress the journal throttle held back', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-store-'));
+  await mkdir(join(dir, 'in'));
+  await writeFile(join(dir, 'data.bin'), Buffer.alloc(1000, 7));
+  
+  // Acks never reach the sender, so it stops after its first window of three chunks
+  const network = new LoopbackNetwork();
+  const senderTransport = network.connect('sender');
+  const receive = senderTransport.receive.bind(senderTransport);
+  senderTransport.receive = (from, message) => {
+    if (typeof message === 'string' && decodeFromChat(message)?.type === 'ack') return;
+    receive(from, message);
+  };
+  
+  const store = new MemoryStore();
+  const sender = new TransferManager({
+    botId: 'sender', secret: 'sender-secret', downloadDir: dir, store: false, pins: false, chunkSize: 100, windowSize: 3
+  }, senderTransport);
+  const receiver = new TransferManager({
+    botId: 'receiver', secret: 'receiver-secret', downloadDir: join(dir, 'in'), store, pins: false,
+    chunkCache: false, autoAccept: true, trustedPeers: [{ id: 'sender', secret: 'unused' }]
+  }, network.connect('receiver'));
+  
+  try {
+    const received = new Promise<void>(resolve => {
+      let count = 0;
+      receiver.on('chunk-received', () => ++count === 3 && resolve());
+    });
+    const transferId = await sender.sendFile('receiver', join(dir, 'data.bin'));
+    await received;
+    
+    // Chunks within PERSIST_INTERVAL of the accept were not written yet
+    assert.ok((store.records.get(transferId)?.receivedChunks.length ?? 0) < 3);
+    await receiver.close();
+    assert.deepEqual(store.records.get(transferId)?.receivedChunks.sort(), [0, 1, 2]);
+  } finally {
+    await sender.close();
+    await receiver.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('journal records are readable by the owner only', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-store-'));
+  const journal = join(dir, 'transfers');
+  await mkdir(journal, { mode: 0o755 });
+  
+  try {
+    const store = new FileTransferStore(journal);
+    await store.save({ id: 'abc', receivedChunks: [], ipfsKey: 'c2VjcmV0' } as unknown as StoredTransfer);
+    
+    assert.equal((await stat(journal)).mode & 0o777, 0o700);
+    const [file] = await readdir(journal);
+    assert.equal((await stat(join(journal, file))).mode & 0o777, 0o600);
+    assert.equal((await store.load())[0].ipfsKey, 'c2VjcmV0');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('transfer IDs that sanitize alike get separate records', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'ocft-store-'));
+  
+  try {
+    const store = new FileTransferStore(dir);
+    await store.save({ id: 'a/b', receivedChunks: [1] } as unknown as StoredTransfer);
+    await store.save({ id: 'a.b', receivedChunks: [2] } as unknown as StoredTransfer);
+    await store.save({ id: 'a_b', receivedChunks: [3] } as unknown as StoredTransfer);
+    await store.remove('a.b');
+    
+    const ids = (await store.load()).map(t => t.id).sort();
+    assert.deepEqual(ids, ['a/b', 'a_b']);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
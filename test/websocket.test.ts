@@ -0,0 +1,68 @@
+/**
+ * WebSocket transport: a misbehaving peer must not take the listener down
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { WebSocketTransport, NODE_ID_HEADER } from '../src/transport.js';
+
+// Open a raw client and wait until it is connected
+async function rawClient(port: number, nodeId: string): Promise<WebSocket> {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`, { headers: { [NODE_ID_HEADER]: nodeId } });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+  return socket;
+}
+
+// Resolve with the close code once the server drops the connection
+function closed(socket: WebSocket): Promise<number> {
+  socket.on('error', () => {});
+  return new Promise(resolve => socket.once('close', (code: number) => resolve(code)));
+}
+
+test('listener drops peers that send malformed frames and keeps serving others', async () => {
+  const server = await WebSocketTransport.listen(0, { nodeId: 'server', host: '127.0.0.1', maxMessageChars: 100 });
+  const received: string[] = [];
+  server.onMessage((from, message) => { received.push(`${from}:${message}`); });
+  
+  try {
+    // Text frames must be valid UTF-8 (1007: invalid frame payload data)
+    const bad = await rawClient(server.port!, 'bad');
+    const badClosed = closed(bad);
+    bad.send(Buffer.from([0xff, 0xfe, 0xfd]), { binary: false });
+    assert.equal(await badClosed, 1007);
+    
+    const good = await WebSocketTransport.connect(`ws://127.0.0.1:${server.port}`, { nodeId: 'good' });
+    await good.send('server', 'hello');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await good.close();
+    assert.deepEqual(received, ['good:hello']);
+  } finally {
+    await server.close();
+  }
+});
+
+test('a message limit applies to text frames only, not binary chunks', async () => {
+  const server = await WebSocketTransport.listen(0, { nodeId: 'server', host: '127.0.0.1', maxMessageChars: 4096 });
+  const frames: number[] = [];
+  server.onBinary((_from, data) => { frames.push(data.length); });
+  
+  try {
+    const client = await WebSocketTransport.connect(`ws://127.0.0.1:${server.port}`, { nodeId: 'client' });
+    await client.sendBinary('server', Buffer.alloc(1024 * 1024));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await client.close();
+    assert.deepEqual(frames, [1024 * 1024]);
+    
+    // Text frames over the limit still close the connection (1009: message too big)
+    const raw = await rawClient(server.port!, 'raw');
+    const rawClosed = closed(raw);
+    raw.send(JSON.stringify({ from: 'raw', to: 'server', message: 'x'.repeat(20000) }));
+    assert.equal(await rawClosed, 1009);
+  } finally {
+    await server.close();
+  }
+});